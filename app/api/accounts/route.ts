@@ -0,0 +1,76 @@
+import { EXPENSE_ACCOUNT_TYPES } from "@/lib/constants";
+import { qboAuthService } from "@/lib/qbo-auth";
+import { QBOService } from "@/lib/qbo-service";
+import { QBOTokens } from "@/lib/types";
+import { jwtVerify, SignJWT } from "jose";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    // Check authentication
+    const cookieStore = await cookies();
+    const session = cookieStore.get("qbo_session");
+
+    if (!session) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Decrypt tokens
+    const secret = new TextEncoder().encode(process.env.SESSION_SECRET!);
+    const { payload } = await jwtVerify(session.value, secret);
+    let tokens = payload.tokens as QBOTokens;
+
+    // Refresh token if expired
+    try {
+      tokens = await qboAuthService.getValidToken(tokens);
+
+      // Update cookie with refreshed tokens
+      const encryptedTokens = await new SignJWT({ tokens })
+        .setProtectedHeader({ alg: "HS256" })
+        .setExpirationTime("30d")
+        .sign(secret);
+
+      cookieStore.set("qbo_session", encryptedTokens, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: 30 * 24 * 60 * 60, // 30 days
+      });
+    } catch (refreshError) {
+      console.error("Token refresh failed:", refreshError);
+      return NextResponse.json(
+        { error: "Authentication expired. Please reconnect to QuickBooks." },
+        { status: 401 }
+      );
+    }
+
+    // Only accounts a bill's expense lines can post to are offered
+    const qboService = new QBOService(tokens);
+    const accounts = await qboService.getAccounts();
+
+    return NextResponse.json({
+      accounts: accounts
+        .filter(
+          (a) =>
+            a.Active !== false && EXPENSE_ACCOUNT_TYPES.includes(a.AccountType)
+        )
+        .map((a) => ({
+          id: a.Id,
+          name: a.FullyQualifiedName ?? a.Name,
+          type: a.AccountType,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.error("Account list error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to load accounts",
+      },
+      { status: 500 }
+    );
+  }
+}
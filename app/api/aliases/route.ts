@@ -0,0 +1,137 @@
+import { aliasStore } from "@/lib/alias-store";
+import { AliasEntityType, QBOTokens } from "@/lib/types";
+import { jwtVerify } from "jose";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+
+const ENTITY_TYPES: AliasEntityType[] = [
+  "Vendor",
+  "Customer",
+  "Project",
+  "Class",
+  "Department",
+  "Item",
+];
+
+// A missing, malformed or expired session all mean not authenticated
+async function getRealmId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get("qbo_session");
+  if (!session) return null;
+
+  const secret = new TextEncoder().encode(process.env.SESSION_SECRET!);
+  try {
+    const { payload } = await jwtVerify(session.value, secret);
+    const tokens = payload.tokens as QBOTokens;
+    return tokens.realm_id ?? null;
+  } catch (error) {
+    console.error("Invalid session:", error);
+    return null;
+  }
+}
+
+export async function GET() {
+  try {
+    const realmId = await getRealmId();
+    if (!realmId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const aliases = await aliasStore.list(realmId);
+    return NextResponse.json({ aliases });
+  } catch (error) {
+    console.error("Alias list error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) || "Failed to load aliases",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const realmId = await getRealmId();
+    if (!realmId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { entityType, alias, entityId, entityName } =
+      (await request.json()) as {
+        entityType: AliasEntityType;
+        alias: string;
+        entityId: string;
+        entityName?: string;
+      };
+
+    if (!ENTITY_TYPES.includes(entityType)) {
+      return NextResponse.json(
+        { error: `Entity type must be one of ${ENTITY_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!alias?.trim() || !entityId?.trim()) {
+      return NextResponse.json(
+        { error: "Alias and QuickBooks ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const saved = await aliasStore.add({
+      realmId,
+      entityType,
+      alias,
+      entityId: entityId.trim(),
+      entityName: entityName?.trim() || undefined,
+    });
+
+    return NextResponse.json({ alias: saved });
+  } catch (error) {
+    console.error("Alias save error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) || "Failed to save alias",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const realmId = await getRealmId();
+    if (!realmId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get("entityType") as AliasEntityType;
+    const alias = searchParams.get("alias");
+
+    if (!ENTITY_TYPES.includes(entityType) || !alias) {
+      return NextResponse.json(
+        { error: "entityType and alias are required" },
+        { status: 400 }
+      );
+    }
+
+    const removed = await aliasStore.remove(realmId, entityType, alias);
+    if (!removed) {
+      return NextResponse.json({ error: "Alias not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Alias delete error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) || "Failed to delete alias",
+      },
+      { status: 500 }
+    );
+  }
+}
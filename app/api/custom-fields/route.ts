@@ -0,0 +1,67 @@
+import { qboAuthService } from "@/lib/qbo-auth";
+import { QBOService } from "@/lib/qbo-service";
+import { QBOTokens } from "@/lib/types";
+import { jwtVerify, SignJWT } from "jose";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    // Check authentication
+    const cookieStore = await cookies();
+    const session = cookieStore.get("qbo_session");
+
+    if (!session) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Decrypt tokens
+    const secret = new TextEncoder().encode(process.env.SESSION_SECRET!);
+    const { payload } = await jwtVerify(session.value, secret);
+    let tokens = payload.tokens as QBOTokens;
+
+    // Refresh token if expired
+    try {
+      tokens = await qboAuthService.getValidToken(tokens);
+
+      // Update cookie with refreshed tokens
+      const encryptedTokens = await new SignJWT({ tokens })
+        .setProtectedHeader({ alg: "HS256" })
+        .setExpirationTime("30d")
+        .sign(secret);
+
+      cookieStore.set("qbo_session", encryptedTokens, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: 30 * 24 * 60 * 60, // 30 days
+      });
+    } catch (refreshError) {
+      console.error("Token refresh failed:", refreshError);
+      return NextResponse.json(
+        { error: "Authentication expired. Please reconnect to QuickBooks." },
+        { status: 401 }
+      );
+    }
+
+    const qboService = new QBOService(tokens);
+    const definitions = await qboService.getCustomFieldDefinitions();
+
+    return NextResponse.json({
+      customFields: definitions.map((d) => ({
+        id: d.DefinitionId,
+        name: d.Name,
+      })),
+    });
+  } catch (error) {
+    console.error("Custom field list error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to load custom fields",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -45,14 +45,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse request
-    const { rows, settings } = (await request.json()) as {
+    const { rows, settings, sourceFile } = (await request.json()) as {
       rows: CSVRow[];
       settings: ProcessingSettings;
+      sourceFile?: string;
     };
 
     // Create processor and run dry-run
     const processor = new CSVProcessor(tokens, settings);
-    const dryRunResults = await processor.dryRun(rows);
+    const dryRunResults = await processor.dryRun(rows, sourceFile);
 
     return NextResponse.json({ results: dryRunResults });
   } catch (error: any) {
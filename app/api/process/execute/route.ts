@@ -48,6 +48,13 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const rowsJson = formData.get("rows") as string;
     const settingsJson = formData.get("settings") as string;
+    const runId = (formData.get("runId") as string | null) || undefined;
+    const sourceFile =
+      (formData.get("sourceFile") as string | null) || undefined;
+
+    if (runId && !/^[\w-]{1,64}$/.test(runId)) {
+      return NextResponse.json({ error: "Invalid run ID" }, { status: 400 });
+    }
 
     const rows: CSVRow[] = JSON.parse(rowsJson);
     const settings: ProcessingSettings = JSON.parse(settingsJson);
@@ -71,13 +78,20 @@ export async function POST(request: NextRequest) {
     console.log("Creating processor with settings:", settings);
     console.log("Number of rows to process:", rows.length);
     console.log("Number of attachments:", attachments.size);
+    console.log("Run ID:", runId);
 
     const processor = new CSVProcessor(tokens, settings);
-    const results = await processor.processAll(rows, attachments);
+    const results = await processor.processAll(
+      rows,
+      attachments,
+      undefined,
+      runId,
+      sourceFile
+    );
 
     console.log("Processing complete. Results:", results.length);
 
-    return NextResponse.json({ results });
+    return NextResponse.json({ runId, results });
   } catch (error: any) {
     console.error("Processing error:", error);
     console.error("Error stack:", error.stack);
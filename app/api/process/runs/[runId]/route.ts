@@ -0,0 +1,64 @@
+import { runStore } from "@/lib/run-store";
+import { QBOTokens } from "@/lib/types";
+import { jwtVerify } from "jose";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Check authentication
+    const cookieStore = await cookies();
+    const session = cookieStore.get("qbo_session");
+
+    if (!session) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Decrypt tokens
+    const secret = new TextEncoder().encode(process.env.SESSION_SECRET!);
+    const { payload } = await jwtVerify(session.value, secret);
+    const tokens = payload.tokens as QBOTokens;
+
+    const { runId } = await params;
+    const run = await runStore.get(runId);
+
+    if (!run || run.realmId !== tokens.realm_id) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const checkpoints = Object.values(run.groups);
+
+    return NextResponse.json({
+      runId: run.runId,
+      status: run.status,
+      totalGroups: run.totalGroups,
+      processedGroups: checkpoints.length,
+      groups: checkpoints.map((c) => ({
+        billNumber: c.billNumber,
+        status: c.result.status,
+        billId: c.result.billId,
+        vendorCreditId: c.result.vendorCreditId,
+        billPaymentId: c.result.billPaymentId,
+        purchaseId: c.result.purchaseId,
+        purchaseCreditId: c.result.purchaseCreditId,
+        journalEntryId: c.result.journalEntryId,
+        invoiceIds: c.result.invoiceIds,
+        completedAt: c.completedAt,
+      })),
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+    });
+  } catch (error) {
+    console.error("Run status error:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error && error.message) || "Failed to load run",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 "use client";
 
+import { AccountMapper } from "@/components/AccountMapper";
+import { AliasManager } from "@/components/AliasManager";
 import { CSVUpload } from "@/components/CSVUpload";
 import { FieldMapper } from "@/components/FieldMapper";
 import { FileUpload } from "@/components/FileUpload";
+import { ItemMapper } from "@/components/ItemMapper";
 import { ResultsTable } from "@/components/ResultsTable";
 import { SettingsPanel } from "@/components/SettingsPanel";
 import { Button } from "@/components/ui/button";
@@ -14,6 +17,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import {
+  AliasEntityType,
   DryRunResult,
   FieldMapping,
   ProcessingResult,
@@ -32,16 +36,33 @@ export default function Home() {
 
   const [csvData, setCsvData] = useState<any[]>([]);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvFileName, setCsvFileName] = useState("");
   const [attachments, setAttachments] = useState<File[]>([]);
   const [fieldMapping, setFieldMapping] = useState<FieldMapping>(
     {} as FieldMapping
   );
+  const [customFieldMapping, setCustomFieldMapping] = useState<
+    Record<string, string>
+  >({});
   const [settings, setSettings] = useState<ProcessingSettings>({
     autoCreate: true,
     alsoAttachToInvoice: false,
     fromBillableExpenses: true,
     defaultCurrency: "USD",
     strictDateParsing: false,
+    atomicGroups: false,
+    concurrency: 3,
+    preloadEntities: true,
+    useBatchApi: false,
+    fuzzyMatchThreshold: 0.85,
+    accountMappings: {},
+    defaultItemName: "Services",
+    itemMappings: { byCategory: {}, byVendor: {} },
+    billableLookbackDays: 90,
+    invoiceRunBillsOnly: false,
+    markupRules: [],
+    transactionType: "Bill",
+    updateExistingBills: false,
     environment: "sandbox",
   });
 
@@ -52,6 +73,7 @@ export default function Home() {
   const [dryRunResults, setDryRunResults] = useState<DryRunResult[]>([]);
   const [results, setResults] = useState<ProcessingResult[]>([]);
   const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [pendingRunId, setPendingRunId] = useState<string | null>(null);
 
   useEffect(() => {
     checkAuthStatus();
@@ -66,6 +88,7 @@ export default function Home() {
         setEnvironment(data.environment);
         setSettings((prev) => ({ ...prev, environment: data.environment }));
       }
+      setPendingRunId(localStorage.getItem("pendingRunId"));
     } catch (error) {
       console.error("Failed to check auth status:", error);
     } finally {
@@ -92,9 +115,14 @@ export default function Home() {
     }
   };
 
-  const handleCSVLoaded = (data: any[], headers: string[]) => {
+  const handleCSVLoaded = (
+    data: Record<string, string>[],
+    headers: string[],
+    fileName: string
+  ) => {
     setCsvData(data);
     setCsvHeaders(headers);
+    setCsvFileName(fileName);
   };
 
   const handleNext = () => {
@@ -105,23 +133,54 @@ export default function Home() {
     }
   };
 
+  // Distinct values of a mapped column, for account and item mapping
+  const distinctValues = (field: keyof FieldMapping) =>
+    Array.from(
+      new Set(
+        csvData.map((row) =>
+          fieldMapping[field] ? (row[fieldMapping[field]] || "").trim() : ""
+        )
+      )
+    ).sort();
+  const categories = distinctValues("Category");
+  const vendors = distinctValues("VendorName");
+
+  // Mappings are saved with the other settings so they carry over between
+  // imports
+  const updateSettings = (changes: Partial<ProcessingSettings>) => {
+    const newSettings = { ...settings, ...changes };
+    setSettings(newSettings);
+    localStorage.setItem("processingSettings", JSON.stringify(newSettings));
+  };
+
+  // Map a CSV row to the required format, with custom field values by name
+  const mapRow = (row: Record<string, string>) => {
+    const mapped: Record<string, string> = {};
+    Object.keys(fieldMapping).forEach((key) => {
+      const csvColumn = fieldMapping[key as keyof FieldMapping];
+      mapped[key] = row[csvColumn] || "";
+    });
+    const customFields: Record<string, string> = {};
+    Object.entries(customFieldMapping).forEach(([fieldName, csvColumn]) => {
+      customFields[fieldName] = row[csvColumn] || "";
+    });
+    return { ...mapped, CustomFields: customFields };
+  };
+
   const runDryRun = async () => {
     setProcessing(true);
     try {
       // Map CSV data to required format
-      const mappedRows = csvData.map((row) => {
-        const mapped: any = {};
-        Object.keys(fieldMapping).forEach((key) => {
-          const csvColumn = fieldMapping[key as keyof FieldMapping];
-          mapped[key] = row[csvColumn] || "";
-        });
-        return mapped;
-      });
+      const mappedRows = csvData.map(mapRow);
 
       const res = await fetch("/api/process/dry-run", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ rows: mappedRows, settings }),
+        body: JSON.stringify({
+          rows: mappedRows,
+          settings,
+          sourceFile: csvFileName,
+        }),
       });
 
       const data = await res.json();
@@ -135,25 +194,24 @@ export default function Home() {
     }
   };
 
-  const handleExecute = async () => {
+  const handleExecute = async (resumeRunId?: string) => {
     setProcessing(true);
     setProgress({ current: 0, total: csvData.length });
 
+    // Remember the run until it finishes so an interrupted import can resume
+    const runId = resumeRunId || crypto.randomUUID();
+    localStorage.setItem("pendingRunId", runId);
+
     try {
       // Map CSV data
-      const mappedRows = csvData.map((row) => {
-        const mapped: any = {};
-        Object.keys(fieldMapping).forEach((key) => {
-          const csvColumn = fieldMapping[key as keyof FieldMapping];
-          mapped[key] = row[csvColumn] || "";
-        });
-        return mapped;
-      });
+      const mappedRows = csvData.map(mapRow);
 
       // Prepare form data with files
       const formData = new FormData();
       formData.append("rows", JSON.stringify(mappedRows));
       formData.append("settings", JSON.stringify(settings));
+      formData.append("runId", runId);
+      formData.append("sourceFile", csvFileName);
 
       attachments.forEach((file) => {
         formData.append(`file_${file.name}`, file);
@@ -165,16 +223,51 @@ export default function Home() {
       });
 
       const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Processing failed");
+      }
       setResults(data.results);
+      localStorage.removeItem("pendingRunId");
+      setPendingRunId(null);
       setStep("results");
     } catch (error) {
       console.error("Processing failed:", error);
-      alert("Processing failed. Please check the console for details.");
+      setPendingRunId(runId);
+      alert(
+        `Processing did not finish${
+          error instanceof Error ? `: ${error.message}` : ""
+        }. You can resume run ${runId} from the preview step.`
+      );
     } finally {
       setProcessing(false);
     }
   };
 
+  const handleAddAlias = async (alias: {
+    entityType: AliasEntityType;
+    alias: string;
+    entityId: string;
+    entityName: string;
+  }) => {
+    try {
+      const res = await fetch("/api/aliases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(alias),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save alias");
+      }
+      alert(
+        `Saved alias: "${alias.alias}" now maps to ${alias.entityType} "${alias.entityName}". Re-run the import to use it.`
+      );
+    } catch (error) {
+      console.error("Failed to save alias:", error);
+      alert("Failed to save alias. Please try again.");
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -328,8 +421,9 @@ export default function Home() {
                 </Card>
               </div>
 
-              <div>
+              <div className="space-y-6">
                 <SettingsPanel onSettingsChange={setSettings} />
+                <AliasManager />
               </div>
             </div>
           )}
@@ -345,8 +439,35 @@ export default function Home() {
               <CardContent>
                 <FieldMapper
                   csvHeaders={csvHeaders}
+                  transactionType={settings.transactionType}
                   onMappingChange={setFieldMapping}
+                  onCustomFieldMappingChange={setCustomFieldMapping}
                 />
+                <div className="mt-8">
+                  <AccountMapper
+                    categories={categories}
+                    mappings={settings.accountMappings || {}}
+                    onMappingsChange={(accountMappings) =>
+                      updateSettings({ accountMappings })
+                    }
+                  />
+                </div>
+                <div className="mt-8">
+                  <ItemMapper
+                    categories={categories}
+                    vendors={vendors}
+                    defaultItemName={settings.defaultItemName || ""}
+                    mappings={
+                      settings.itemMappings || { byCategory: {}, byVendor: {} }
+                    }
+                    onDefaultItemChange={(defaultItemName) =>
+                      updateSettings({ defaultItemName })
+                    }
+                    onMappingsChange={(itemMappings) =>
+                      updateSettings({ itemMappings })
+                    }
+                  />
+                </div>
               </CardContent>
             </Card>
           )}
@@ -360,6 +481,22 @@ export default function Home() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                {pendingRunId && (
+                  <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md flex items-center justify-between gap-4">
+                    <p className="text-sm text-yellow-800">
+                      Run <span className="font-mono">{pendingRunId}</span>{" "}
+                      did not finish. Resuming skips bill groups that were
+                      already posted, and only works with the same CSV file.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleExecute(pendingRunId)}
+                      disabled={processing}
+                    >
+                      Resume run
+                    </Button>
+                  </div>
+                )}
                 <div className="space-y-4">
                   {dryRunResults.map((result) => (
                     <div
@@ -382,6 +519,19 @@ export default function Home() {
                           ))}
                         </div>
                       )}
+                      {result.warnings.length > 0 && (
+                        <div className="mb-2">
+                          {result.warnings.map((warning, i) => (
+                            <div
+                              key={i}
+                              className="flex items-center gap-2 text-yellow-700 text-sm"
+                            >
+                              <AlertCircle className="w-4 h-4" />
+                              {warning}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       {result.actions.length > 0 && (
                         <ul className="space-y-1">
                           {result.actions.map((action, i) => (
@@ -411,7 +561,7 @@ export default function Home() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <ResultsTable results={results} />
+                <ResultsTable results={results} onAddAlias={handleAddAlias} />
               </CardContent>
             </Card>
           )}
@@ -434,7 +584,7 @@ export default function Home() {
 
             {step !== "results" && (
               <Button
-                onClick={step === "preview" ? handleExecute : handleNext}
+                onClick={step === "preview" ? () => handleExecute() : handleNext}
                 disabled={
                   processing ||
                   (step === "upload" && csvData.length === 0) ||
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface AccountOption {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface AccountMapperProps {
+  categories: string[];
+  mappings: Record<string, string>;
+  onMappingsChange: (mappings: Record<string, string>) => void;
+}
+
+export function AccountMapper({
+  categories,
+  mappings,
+  onMappingsChange,
+}: AccountMapperProps) {
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/accounts")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load accounts");
+        setAccounts(data.accounts);
+      })
+      .catch((e) => {
+        console.error("Failed to load accounts:", e);
+        setError(e.message);
+      });
+  }, []);
+
+  const handleChange = (category: string, accountName: string) => {
+    const newMappings = { ...mappings };
+    if (accountName) {
+      newMappings[category] = accountName;
+    } else {
+      delete newMappings[category];
+    }
+    onMappingsChange(newMappings);
+  };
+
+  const unmapped = categories.filter((c) => !mappings[c]).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold">Map Categories to Accounts</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Choose the expense account each category posts to. Rows with an
+          Account Name column use that account instead.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-4">
+        {categories.map((category) => (
+          <div key={category} className="grid grid-cols-2 gap-4 items-center">
+            <label className="text-sm font-medium text-gray-700">
+              {category || <span className="italic">(no category)</span>}
+            </label>
+            <select
+              value={mappings[category] || ""}
+              onChange={(e) => handleChange(category, e.target.value)}
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="">-- Select Account --</option>
+              {/* Keep a saved mapping visible even if it's no longer listed */}
+              {mappings[category] &&
+                !accounts.some((a) => a.name === mappings[category]) && (
+                  <option value={mappings[category]}>
+                    {mappings[category]}
+                  </option>
+                )}
+              {accounts.map((account) => (
+                <option key={account.id} value={account.name}>
+                  {account.name} ({account.type})
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {unmapped > 0 && (
+        <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800">
+            {unmapped} categor{unmapped === 1 ? "y has" : "ies have"} no
+            account. Those rows will fail the preview unless they set an
+            account name.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
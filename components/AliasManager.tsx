@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { AliasEntityType, EntityAlias } from '@/lib/types'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+
+const ENTITY_TYPES: AliasEntityType[] = [
+  'Vendor',
+  'Customer',
+  'Project',
+  'Class',
+  'Department',
+  'Item',
+]
+
+export function AliasManager() {
+  const [aliases, setAliases] = useState<EntityAlias[]>([])
+  const [entityType, setEntityType] = useState<AliasEntityType>('Vendor')
+  const [alias, setAlias] = useState('')
+  const [entityId, setEntityId] = useState('')
+  const [entityName, setEntityName] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchAliases = async (): Promise<EntityAlias[]> => {
+    try {
+      const res = await fetch('/api/aliases')
+      const data = await res.json()
+      return res.ok ? data.aliases : []
+    } catch (e) {
+      console.error('Failed to load aliases:', e)
+      return []
+    }
+  }
+
+  useEffect(() => {
+    fetchAliases().then(setAliases)
+  }, [])
+
+  const addAlias = async () => {
+    setError('')
+    const res = await fetch('/api/aliases', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entityType, alias, entityId, entityName }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to save alias')
+      return
+    }
+    setAlias('')
+    setEntityId('')
+    setEntityName('')
+    setAliases(await fetchAliases())
+  }
+
+  const removeAlias = async (entry: EntityAlias) => {
+    const params = new URLSearchParams({
+      entityType: entry.entityType,
+      alias: entry.alias,
+    })
+    await fetch(`/api/aliases?${params}`, { method: 'DELETE' })
+    setAliases(await fetchAliases())
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Name Aliases</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-gray-600">
+          Map a name as it appears in your CSV to a specific QuickBooks record.
+          Aliases are checked before any lookup by name.
+        </p>
+
+        {aliases.length > 0 && (
+          <ul className="divide-y divide-gray-200 border rounded-md">
+            {aliases.map((entry) => (
+              <li
+                key={`${entry.entityType}:${entry.alias}`}
+                className="flex items-center justify-between px-3 py-2 text-sm"
+              >
+                <div>
+                  <span className="text-xs text-gray-500 mr-2">{entry.entityType}</span>
+                  <span className="font-medium">{entry.alias}</span>
+                  <span className="text-gray-500">
+                    {' '}
+                    → {entry.entityName || 'ID'} ({entry.entityId})
+                  </span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removeAlias(entry)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <select
+            value={entityType}
+            onChange={(e) => setEntityType(e.target.value as AliasEntityType)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Name in CSV"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            placeholder="QuickBooks ID"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            placeholder="QuickBooks name (optional)"
+            value={entityName}
+            onChange={(e) => setEntityName(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addAlias}
+            disabled={!alias.trim() || !entityId.trim()}
+          >
+            Add Alias
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,11 @@ import Papa from "papaparse";
 import { useCallback, useState } from "react";
 
 interface CSVUploadProps {
-  onDataLoaded: (data: any[], headers: string[]) => void;
+  onDataLoaded: (
+    data: Record<string, string>[],
+    headers: string[],
+    fileName: string
+  ) => void;
 }
 
 export function CSVUpload({ onDataLoaded }: CSVUploadProps) {
@@ -25,7 +29,7 @@ export function CSVUpload({ onDataLoaded }: CSVUploadProps) {
       setFileName(file.name);
       setError("");
 
-      Papa.parse(file, {
+      Papa.parse<Record<string, string>>(file, {
         header: true,
         skipEmptyLines: "greedy",
         complete: (results) => {
@@ -35,7 +39,7 @@ export function CSVUpload({ onDataLoaded }: CSVUploadProps) {
           }
 
           const headers = results.meta.fields || [];
-          onDataLoaded(results.data, headers);
+          onDataLoaded(results.data, headers, file.name);
         },
         error: (error) => {
           setError(`Failed to parse CSV: ${error.message}`);
@@ -1,11 +1,19 @@
 "use client";
 
-import { FieldMapping } from "@/lib/types";
+import { FieldMapping, TransactionType } from "@/lib/types";
 import { useEffect, useState } from "react";
 
 interface FieldMapperProps {
   csvHeaders: string[];
+  transactionType?: TransactionType;
   onMappingChange: (mapping: FieldMapping) => void;
+  // Invoice custom field name -> CSV column
+  onCustomFieldMappingChange: (mapping: Record<string, string>) => void;
+}
+
+interface CustomFieldOption {
+  id: string;
+  name: string;
 }
 
 const REQUIRED_FIELDS = [
@@ -22,7 +30,33 @@ const REQUIRED_FIELDS = [
   },
   { key: "BillLineAmount", label: "Bill Line Amount", required: true },
   { key: "Category", label: "Category/Class", required: false },
+  { key: "AccountName", label: "Expense Account", required: false },
+  { key: "TaxCode", label: "Tax Code", required: false },
+  {
+    key: "TaxInclusive",
+    label: "Amounts Include Tax (yes/no)",
+    required: false,
+  },
+  { key: "LineType", label: "Line Type (account/item)", required: false },
+  { key: "Item", label: "Item", required: false },
+  { key: "Quantity", label: "Quantity", required: false },
+  { key: "UnitCost", label: "Unit Cost", required: false },
   { key: "Currency", label: "Currency", required: false },
+  { key: "ExchangeRate", label: "Exchange Rate", required: false },
+  { key: "DueDate", label: "Due Date", required: false },
+  { key: "Terms", label: "Terms", required: false },
+  { key: "APAccount", label: "A/P Account", required: false },
+  { key: "Memo", label: "Memo (private note)", required: false },
+  { key: "PaymentDate", label: "Payment Date", required: false },
+  { key: "PaymentAccount", label: "Payment Account", required: false },
+  {
+    key: "PaymentMethod",
+    label: "Payment Method (check/credit card)",
+    required: false,
+  },
+  { key: "PaidAmount", label: "Paid Amount", required: false },
+  { key: "Debit", label: "Debit (journal entries)", required: false },
+  { key: "Credit", label: "Credit (journal entries)", required: false },
   { key: "InvoiceDate", label: "Invoice Date", required: true },
   { key: "PONumber", label: "PO Number", required: false },
   { key: "PointOfContact", label: "Point of Contact", required: false },
@@ -33,8 +67,66 @@ const REQUIRED_FIELDS = [
   },
 ];
 
-export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
+// `required` above is for bills. Purchases aren't invoiced but need the
+// account they were paid from; journal entries need a number, a date and a
+// debit or credit on each line.
+const REQUIRED_BY_TYPE: Partial<Record<TransactionType, string[]>> = {
+  Purchase: [
+    "BillNumber",
+    "ProjectName",
+    "CustomerName",
+    "VendorName",
+    "BillDate",
+    "BillLineDescription",
+    "BillLineAmount",
+    "PaymentAccount",
+  ],
+  JournalEntry: ["BillNumber", "BillDate", "Debit", "Credit"],
+};
+
+export function FieldMapper({
+  csvHeaders,
+  transactionType = "Bill",
+  onMappingChange,
+  onCustomFieldMappingChange,
+}: FieldMapperProps) {
   const [mapping, setMapping] = useState<FieldMapping>({} as FieldMapping);
+  const [customFields, setCustomFields] = useState<CustomFieldOption[] | null>(
+    null
+  );
+  const [customFieldMapping, setCustomFieldMapping] = useState<
+    Record<string, string>
+  >({});
+  const [customFieldError, setCustomFieldError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/custom-fields")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load custom fields");
+        }
+        setCustomFields(data.customFields);
+
+        // Columns named like a custom field map onto it
+        const autoMapping: Record<string, string> = {};
+        data.customFields.forEach((field: CustomFieldOption) => {
+          const match = csvHeaders.find(
+            (h) => h.toLowerCase().trim() === field.name.toLowerCase()
+          );
+          // Point of Contact has its own column mapping
+          if (match && field.name.toLowerCase() !== "point of contact") {
+            autoMapping[field.name] = match;
+          }
+        });
+        setCustomFieldMapping(autoMapping);
+        onCustomFieldMappingChange(autoMapping);
+      })
+      .catch((e) => {
+        console.error("Failed to load custom fields:", e);
+        setCustomFieldError(e.message);
+      });
+  }, [csvHeaders, onCustomFieldMappingChange]);
 
   useEffect(() => {
     // Auto-map fields with exact matches and common variations
@@ -53,6 +145,10 @@ export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
         "invoicenumber",
         "docnumber",
         "doc_number",
+        "entry_number",
+        "entry number",
+        "journal_no",
+        "journal no",
       ],
       Location: [
         "location",
@@ -104,7 +200,72 @@ export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
         "account_category",
         "account category",
       ],
+      AccountName: [
+        "accountname",
+        "account_name",
+        "account name",
+        "account",
+        "expense_account",
+        "expense account",
+        "gl_account",
+        "gl account",
+      ],
+      TaxCode: ["taxcode", "tax_code", "tax code", "tax"],
+      TaxInclusive: [
+        "taxinclusive",
+        "tax_inclusive",
+        "tax inclusive",
+        "amounts include tax",
+        "amounts_include_tax",
+        "includes_tax",
+        "includes tax",
+      ],
+      LineType: ["linetype", "line_type", "line type"],
+      Item: ["item", "item_name", "item name", "product", "material"],
+      Quantity: ["quantity", "qty"],
+      UnitCost: [
+        "unitcost",
+        "unit_cost",
+        "unit cost",
+        "unit_price",
+        "unit price",
+        "rate",
+      ],
       Currency: ["currency"],
+      ExchangeRate: [
+        "exchangerate",
+        "exchange_rate",
+        "exchange rate",
+        "fx_rate",
+        "fx rate",
+      ],
+      DueDate: ["duedate", "due_date", "due date", "due"],
+      Terms: ["terms", "payment_terms", "payment terms"],
+      APAccount: [
+        "apaccount",
+        "ap_account",
+        "ap account",
+        "a/p account",
+        "payables account",
+      ],
+      Memo: ["memo", "privatenote", "private_note", "private note"],
+      PaymentDate: ["paymentdate", "payment_date", "payment date", "paid_date"],
+      PaymentAccount: [
+        "paymentaccount",
+        "payment_account",
+        "payment account",
+        "bank_account",
+        "bank account",
+      ],
+      PaymentMethod: [
+        "paymentmethod",
+        "payment_method",
+        "payment method",
+        "pay_type",
+      ],
+      PaidAmount: ["paidamount", "paid_amount", "paid amount", "amount_paid"],
+      Debit: ["debit", "debits", "debit_amount", "debit amount", "dr"],
+      Credit: ["credit", "credits", "credit_amount", "credit amount", "cr"],
       InvoiceDate: ["invoicedate", "invoice_date", "invoice date"],
       PONumber: ["ponumber", "po_number", "po number", "po"],
       PointOfContact: [
@@ -145,6 +306,26 @@ export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
     onMappingChange(newMapping);
   };
 
+  const handleCustomFieldChange = (fieldName: string, csvColumn: string) => {
+    const newMapping = { ...customFieldMapping };
+    if (csvColumn) {
+      newMapping[fieldName] = csvColumn;
+    } else {
+      delete newMapping[fieldName];
+    }
+    setCustomFieldMapping(newMapping);
+    onCustomFieldMappingChange(newMapping);
+  };
+
+  const isRequired = (field: (typeof REQUIRED_FIELDS)[number]) =>
+    REQUIRED_BY_TYPE[transactionType]?.includes(field.key) ?? field.required;
+
+  // The Point of Contact column is sent as the custom field of that name
+  const pointOfContactMissing =
+    !!mapping.PointOfContact &&
+    customFields !== null &&
+    !customFields.some((f) => f.name.toLowerCase() === "point of contact");
+
   return (
     <div className="space-y-4">
       <div className="mb-4">
@@ -160,7 +341,9 @@ export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
           <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
             <label className="text-sm font-medium text-gray-700">
               {field.label}
-              {field.required && <span className="text-red-500 ml-1">*</span>}
+              {isRequired(field) && (
+                <span className="text-red-500 ml-1">*</span>
+              )}
             </label>
             <select
               value={mapping[field.key as keyof FieldMapping] || ""}
@@ -178,6 +361,57 @@ export function FieldMapper({ csvHeaders, onMappingChange }: FieldMapperProps) {
         ))}
       </div>
 
+      {pointOfContactMissing && (
+        <p className="text-sm text-red-600">
+          QuickBooks has no &quot;Point of Contact&quot; custom field. Add it
+          under Account and Settings &gt; Sales &gt; Custom fields, or leave
+          Point of Contact unmapped.
+        </p>
+      )}
+
+      <div className="mt-8 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold">Invoice Custom Fields</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Custom fields enabled for sales forms in QuickBooks. Map a column
+            to fill one on each invoice.
+          </p>
+        </div>
+
+        {customFieldError && (
+          <p className="text-sm text-red-600">{customFieldError}</p>
+        )}
+        {customFields?.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No custom fields are set up in QuickBooks.
+          </p>
+        )}
+
+        <div className="grid gap-4">
+          {customFields?.map((field) => (
+            <div key={field.id} className="grid grid-cols-2 gap-4 items-center">
+              <label className="text-sm font-medium text-gray-700">
+                {field.name}
+              </label>
+              <select
+                value={customFieldMapping[field.name] || ""}
+                onChange={(e) =>
+                  handleCustomFieldChange(field.name, e.target.value)
+                }
+                className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="">-- Not mapped --</option>
+                {csvHeaders.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
         <p className="text-sm text-blue-700">
           <strong>Tip:</strong> Make sure all required fields (marked with *)
@@ -0,0 +1,138 @@
+"use client";
+
+import { ItemMappings } from "@/lib/types";
+import { useEffect, useState } from "react";
+
+interface ItemOption {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface ItemMapperProps {
+  categories: string[];
+  vendors: string[];
+  defaultItemName: string;
+  mappings: ItemMappings;
+  onDefaultItemChange: (itemName: string) => void;
+  onMappingsChange: (mappings: ItemMappings) => void;
+}
+
+export function ItemMapper({
+  categories,
+  vendors,
+  defaultItemName,
+  mappings,
+  onDefaultItemChange,
+  onMappingsChange,
+}: ItemMapperProps) {
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/items")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load items");
+        setItems(data.items);
+      })
+      .catch((e) => {
+        console.error("Failed to load items:", e);
+        setError(e.message);
+      });
+  }, []);
+
+  const handleChange = (
+    source: keyof ItemMappings,
+    name: string,
+    itemName: string
+  ) => {
+    const sourceMappings = { ...mappings[source] };
+    if (itemName) {
+      sourceMappings[name] = itemName;
+    } else {
+      delete sourceMappings[name];
+    }
+    onMappingsChange({ ...mappings, [source]: sourceMappings });
+  };
+
+  const renderSelect = (
+    value: string,
+    onChange: (itemName: string) => void,
+    emptyLabel: string
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+    >
+      <option value="">{emptyLabel}</option>
+      {/* Keep a saved mapping visible even if it's no longer listed */}
+      {value && !items.some((i) => i.name === value) && (
+        <option value={value}>{value}</option>
+      )}
+      {items.map((item) => (
+        <option key={item.id} value={item.name}>
+          {item.name} ({item.type})
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderRows = (source: keyof ItemMappings, names: string[]) =>
+    names
+      .filter(Boolean)
+      .map((name) => (
+        <div
+          key={`${source}:${name}`}
+          className="grid grid-cols-2 gap-4 items-center"
+        >
+          <label className="text-sm font-medium text-gray-700">{name}</label>
+          {renderSelect(
+            mappings[source][name] || "",
+            (itemName) => handleChange(source, name, itemName),
+            "-- Use default item --"
+          )}
+        </div>
+      ));
+
+  return (
+    <div className="space-y-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold">Map Invoice Items</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Choose the item each invoice line is booked to. A category mapping
+          wins over a vendor mapping; anything unmapped uses the default item.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-4 items-center">
+        <label className="text-sm font-medium text-gray-700">
+          Default item
+          <span className="text-red-500 ml-1">*</span>
+        </label>
+        {renderSelect(
+          defaultItemName,
+          onDefaultItemChange,
+          "-- Select Item --"
+        )}
+      </div>
+
+      {categories.some(Boolean) && (
+        <div className="grid gap-4">
+          <h4 className="text-sm font-semibold text-gray-900">By category</h4>
+          {renderRows("byCategory", categories)}
+        </div>
+      )}
+
+      {vendors.some(Boolean) && (
+        <div className="grid gap-4">
+          <h4 className="text-sm font-semibold text-gray-900">By vendor</h4>
+          {renderRows("byVendor", vendors)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { MarkupRule } from '@/lib/types'
+import { describeMarkup } from '@/lib/markup'
+import { Button } from './ui/button'
+
+interface MarkupRulesEditorProps {
+  rules: MarkupRule[]
+  onRulesChange: (rules: MarkupRule[]) => void
+}
+
+const inputClass =
+  'block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+export function MarkupRulesEditor({ rules, onRulesChange }: MarkupRulesEditorProps) {
+  const [scope, setScope] = useState<MarkupRule['scope']>('customer')
+  const [match, setMatch] = useState('')
+  const [type, setType] = useState<MarkupRule['type']>('percent')
+  const [value, setValue] = useState('')
+
+  const addRule = () => {
+    onRulesChange([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        scope,
+        match: match.trim(),
+        type,
+        value: parseFloat(value),
+      },
+    ])
+    setMatch('')
+    setValue('')
+  }
+
+  const removeRule = (id: string) => {
+    onRulesChange(rules.filter((rule) => rule.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700">Markup rules</label>
+      <p className="text-xs text-gray-500">
+        Applied to billable costs on invoices. Rules are checked top to bottom
+        and the first match wins; unmatched lines are billed at cost.
+      </p>
+
+      {rules.length > 0 && (
+        <ol className="divide-y divide-gray-200 border rounded-md">
+          {rules.map((rule, index) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between px-3 py-2 text-sm"
+            >
+              <span>
+                <span className="text-xs text-gray-500 mr-2">{index + 1}.</span>
+                {describeMarkup(rule)}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as MarkupRule['scope'])}
+          className={inputClass}
+        >
+          <option value="customer">Customer</option>
+          <option value="project">Project</option>
+          <option value="category">Category</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Name"
+          value={match}
+          onChange={(e) => setMatch(e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as MarkupRule['type'])}
+          className={inputClass}
+        >
+          <option value="percent">Percent of cost</option>
+          <option value="fixed">Fixed fee per line</option>
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          placeholder={type === 'percent' ? '10' : '25.00'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addRule}
+        disabled={!match.trim() || isNaN(parseFloat(value))}
+      >
+        Add Rule
+      </Button>
+    </div>
+  )
+}
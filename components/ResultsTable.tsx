@@ -1,15 +1,21 @@
 'use client'
 
-import { ProcessingResult } from '@/lib/types'
-import { CheckCircle, XCircle, AlertCircle, Download } from 'lucide-react'
+import { AliasEntityType, ProcessingResult } from '@/lib/types'
+import { CheckCircle, XCircle, AlertCircle, Copy, Download } from 'lucide-react'
 import { Button } from './ui/button'
 
 interface ResultsTableProps {
   results: ProcessingResult[]
   onRetry?: (rowIndex: number) => void
+  onAddAlias?: (alias: {
+    entityType: AliasEntityType
+    alias: string
+    entityId: string
+    entityName: string
+  }) => void
 }
 
-export function ResultsTable({ results, onRetry }: ResultsTableProps) {
+export function ResultsTable({ results, onRetry, onAddAlias }: ResultsTableProps) {
   const downloadJSON = () => {
     const dataStr = JSON.stringify(results, null, 2)
     const dataBlob = new Blob([dataStr], { type: 'application/json' })
@@ -28,7 +34,13 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
       'Project ID',
       'Vendor ID',
       'Bill ID',
-      'Invoice ID',
+      'Vendor Credit ID',
+      'Bill Payment ID',
+      'Purchase ID',
+      'Card Credit ID',
+      'Journal Entry ID',
+      'Invoice IDs',
+      'Bill URL',
       'Error',
     ]
     
@@ -39,7 +51,13 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
       r.subCustomerId || '',
       r.vendorId || '',
       r.billId || '',
-      r.invoiceId || '',
+      r.vendorCreditId || '',
+      r.billPaymentId || '',
+      r.purchaseId || '',
+      r.purchaseCreditId || '',
+      r.journalEntryId || '',
+      r.invoiceIds?.join(' ') || '',
+      r.billUrl || '',
       r.error || '',
     ])
 
@@ -64,6 +82,8 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
         return <XCircle className="w-5 h-5 text-red-600" />
       case 'needs_review':
         return <AlertCircle className="w-5 h-5 text-yellow-600" />
+      case 'duplicate':
+        return <Copy className="w-5 h-5 text-orange-600" />
       default:
         return <AlertCircle className="w-5 h-5 text-gray-600" />
     }
@@ -72,6 +92,7 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
   const successCount = results.filter((r) => r.status === 'success').length
   const errorCount = results.filter((r) => r.status === 'error').length
   const reviewCount = results.filter((r) => r.status === 'needs_review').length
+  const duplicateCount = results.filter((r) => r.status === 'duplicate').length
 
   return (
     <div className="space-y-4">
@@ -86,6 +107,9 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
           <div className="text-sm">
             <span className="font-medium text-yellow-600">{reviewCount}</span> Needs Review
           </div>
+          <div className="text-sm">
+            <span className="font-medium text-orange-600">{duplicateCount}</span> Duplicates
+          </div>
         </div>
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={downloadJSON}>
@@ -122,6 +146,18 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                   Bill
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Credit
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Payment
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Purchase
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Journal
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                   Invoice
                 </th>
@@ -152,12 +188,38 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
                     {result.vendorId || '-'}
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
-                    {result.billId || '-'}
+                    {result.billUrl ? (
+                      <a
+                        href={result.billUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {result.billId}
+                      </a>
+                    ) : (
+                      result.billId || '-'
+                    )}
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
-                    {result.invoiceId || '-'}
+                    {result.vendorCreditId || result.purchaseCreditId || '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {result.billPaymentId || '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {result.purchaseId || '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {result.journalEntryId || '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {result.invoiceIds?.join(', ') || '-'}
                   </td>
                   <td className="px-4 py-3 text-sm">
+                    {result.status === 'duplicate' && result.message && (
+                      <span className="text-orange-600 text-xs">{result.message}</span>
+                    )}
                     {result.error && (
                       <div className="flex items-center gap-2">
                         <span className="text-red-600 text-xs">{result.error}</span>
@@ -172,6 +234,37 @@ export function ResultsTable({ results, onRetry }: ResultsTableProps) {
                         )}
                       </div>
                     )}
+                    {result.candidates && result.candidates.length > 0 && (
+                      <div className="text-xs text-gray-500 space-y-1">
+                        <div>Did you mean:</div>
+                        {result.candidates.map((c) => (
+                          <div key={c.id} className="flex items-center gap-2">
+                            <span>
+                              {c.name} (ID {c.id}, {Math.round(c.score * 100)}%)
+                            </span>
+                            {result.unresolved && onAddAlias && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                  onAddAlias({
+                                    entityType: result.unresolved!.entityType,
+                                    alias: result.unresolved!.name,
+                                    entityId: c.id,
+                                    entityName: c.name,
+                                  })
+                                }
+                              >
+                                Save as alias
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {result.compensations && result.compensations.length > 0 && (
+                      <div className="text-xs text-gray-500">{result.message}</div>
+                    )}
                     {result.attachmentResults && result.attachmentResults.length > 0 && (
                       <div className="text-xs text-gray-500">
                         {result.attachmentResults.filter((a) => a.status === 'success').length}/
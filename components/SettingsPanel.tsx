@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { ProcessingSettings } from '@/lib/types'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { MarkupRulesEditor } from './MarkupRulesEditor'
 
 interface SettingsPanelProps {
   onSettingsChange: (settings: ProcessingSettings) => void
@@ -15,6 +16,19 @@ export function SettingsPanel({ onSettingsChange }: SettingsPanelProps) {
     fromBillableExpenses: true,
     defaultCurrency: 'USD',
     strictDateParsing: false,
+    atomicGroups: false,
+    concurrency: 3,
+    preloadEntities: true,
+    useBatchApi: false,
+    fuzzyMatchThreshold: 0.85,
+    accountMappings: {},
+    defaultItemName: 'Services',
+    itemMappings: { byCategory: {}, byVendor: {} },
+    billableLookbackDays: 90,
+    invoiceRunBillsOnly: false,
+    markupRules: [],
+    transactionType: 'Bill',
+    updateExistingBills: false,
     environment: 'sandbox',
   })
 
@@ -23,7 +37,9 @@ export function SettingsPanel({ onSettingsChange }: SettingsPanelProps) {
     const saved = localStorage.getItem('processingSettings')
     if (saved) {
       try {
-        const savedSettings = JSON.parse(saved)
+        // Settings saved by an older version lack the newer fields, so
+        // they keep their defaults
+        const savedSettings = { ...settings, ...JSON.parse(saved) }
         setSettings(savedSettings)
         onSettingsChange(savedSettings)
       } catch (e) {
@@ -50,6 +66,44 @@ export function SettingsPanel({ onSettingsChange }: SettingsPanelProps) {
         <CardTitle className="text-lg">Processing Settings</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            Import rows as
+          </label>
+          <select
+            value={settings.transactionType || 'Bill'}
+            onChange={(e) =>
+              updateSetting(
+                'transactionType',
+                e.target.value as ProcessingSettings['transactionType']
+              )
+            }
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="Bill">Bills (vendor bills, paid later)</option>
+            <option value="Purchase">Purchases (card and bank expenses)</option>
+            <option value="JournalEntry">Journal entries (debit/credit lines)</option>
+          </select>
+          <p className="text-xs text-gray-500">
+            Purchases are paid from each row&apos;s payment account on the bill
+            date. They aren&apos;t invoiced; their lines stay billable to the
+            project. Journal entries group rows by bill number and are only
+            posted when debits equal credits.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">
+            Update existing bills with the same number and vendor
+          </label>
+          <input
+            type="checkbox"
+            checked={settings.updateExistingBills}
+            onChange={(e) => updateSetting('updateExistingBills', e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+        </div>
+
         <div className="flex items-center justify-between">
           <label className="text-sm font-medium text-gray-700">
             Auto-create missing entities
@@ -98,6 +152,128 @@ export function SettingsPanel({ onSettingsChange }: SettingsPanelProps) {
           />
         </div>
 
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">
+            Roll back a bill group if any step fails
+          </label>
+          <input
+            type="checkbox"
+            checked={settings.atomicGroups}
+            onChange={(e) => updateSetting('atomicGroups', e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">
+            Preload customers, vendors and classes before processing
+          </label>
+          <input
+            type="checkbox"
+            checked={settings.preloadEntities}
+            onChange={(e) => updateSetting('preloadEntities', e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">
+              Combine creates into QBO batch requests
+            </label>
+            <input
+              type="checkbox"
+              checked={settings.useBatchApi}
+              onChange={(e) => updateSetting('useBatchApi', e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Each bill makes its creates one after another, so a batch holds at
+            most one create per bill processed in parallel. Raise that number
+            below to save more API calls.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">
+            Invoice only bills created in this run
+          </label>
+          <input
+            type="checkbox"
+            checked={settings.invoiceRunBillsOnly}
+            onChange={(e) => updateSetting('invoiceRunBillsOnly', e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            Billable expense lookback (days)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={3650}
+            value={settings.billableLookbackDays}
+            onChange={(e) =>
+              updateSetting(
+                'billableLookbackDays',
+                Math.min(3650, Math.max(0, parseInt(e.target.value) || 0))
+              )
+            }
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500">
+            Invoices pick up billable lines from bills dated up to this many
+            days before the bill or invoice date.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            Bills processed in parallel
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={settings.concurrency}
+            onChange={(e) =>
+              updateSetting(
+                'concurrency',
+                Math.min(10, Math.max(1, parseInt(e.target.value) || 1))
+              )
+            }
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            Name match threshold (customers and vendors)
+          </label>
+          <input
+            type="number"
+            min={0.5}
+            max={1}
+            step={0.05}
+            value={settings.fuzzyMatchThreshold}
+            onChange={(e) =>
+              updateSetting(
+                'fuzzyMatchThreshold',
+                Math.min(1, Math.max(0.5, parseFloat(e.target.value) || 1))
+              )
+            }
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500">
+            1 accepts only names that match after ignoring case, punctuation
+            and suffixes like Inc or LLC. Names are only fuzzy-matched when
+            customers and vendors are preloaded.
+          </p>
+        </div>
+
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-700">
             Default Currency
@@ -115,6 +291,11 @@ export function SettingsPanel({ onSettingsChange }: SettingsPanelProps) {
           </select>
         </div>
 
+        <MarkupRulesEditor
+          rules={settings.markupRules || []}
+          onRulesChange={(rules) => updateSetting('markupRules', rules)}
+        />
+
         <div className="mt-4 p-3 bg-gray-50 rounded-md">
           <p className="text-xs text-gray-600">
             Settings are automatically saved and will persist across sessions.
@@ -0,0 +1,60 @@
+import { JsonStore } from "./json-store";
+import { AliasEntityType, EntityAlias } from "./types";
+
+type AliasData = Record<string, EntityAlias>;
+
+export class AliasStore {
+  private store: JsonStore<AliasData>;
+
+  constructor(store?: JsonStore<AliasData>) {
+    this.store = store || new JsonStore<AliasData>("aliases.json", () => ({}));
+  }
+
+  // CSV values are matched ignoring case and surrounding whitespace
+  static aliasKey(
+    realmId: string,
+    entityType: AliasEntityType,
+    alias: string
+  ): string {
+    return `${realmId}:${entityType}:${alias.trim().toLowerCase()}`;
+  }
+
+  async list(realmId: string): Promise<EntityAlias[]> {
+    const data = await this.store.read();
+    return Object.values(data)
+      .filter((entry) => entry.realmId === realmId)
+      .sort(
+        (a, b) =>
+          a.entityType.localeCompare(b.entityType) ||
+          a.alias.localeCompare(b.alias)
+      );
+  }
+
+  async add(entry: Omit<EntityAlias, "createdAt">): Promise<EntityAlias> {
+    return this.store.update((data) => {
+      const alias: EntityAlias = {
+        ...entry,
+        alias: entry.alias.trim(),
+        createdAt: new Date().toISOString(),
+      };
+      data[AliasStore.aliasKey(entry.realmId, entry.entityType, entry.alias)] =
+        alias;
+      return alias;
+    });
+  }
+
+  async remove(
+    realmId: string,
+    entityType: AliasEntityType,
+    alias: string
+  ): Promise<boolean> {
+    return this.store.update((data) => {
+      const key = AliasStore.aliasKey(realmId, entityType, alias);
+      const existed = key in data;
+      delete data[key];
+      return existed;
+    });
+  }
+}
+
+export const aliasStore = new AliasStore();
@@ -0,0 +1,42 @@
+// Run the worker over every item with at most `size` in flight at once.
+// Results keep the order of the input, not the order of completion.
+export async function runPool<T, R>(
+  items: T[],
+  size: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const laneCount = Math.max(1, Math.min(size, items.length));
+  const lanes = Array.from({ length: laneCount }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+// Serializes tasks that share a key, e.g. find-or-create of the same entity
+// from two bill groups running concurrently
+export class KeyedMutex {
+  private tails = new Map<string, Promise<unknown>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,8 @@
+// Account types a bill's expense lines may post to
+export const EXPENSE_ACCOUNT_TYPES = [
+  "Expense",
+  "Other Expense",
+  "Cost of Goods Sold",
+];
+// Item types that can appear on an invoice line
+export const SALES_ITEM_TYPES = ["Service", "NonInventory", "Inventory"];
@@ -0,0 +1,89 @@
+import { JsonStore } from "./json-store";
+import { LedgerEntry } from "./types";
+
+type LedgerData = Record<string, LedgerEntry>;
+
+export class ImportLedger {
+  private store: JsonStore<LedgerData>;
+
+  constructor(store?: JsonStore<LedgerData>) {
+    this.store =
+      store || new JsonStore<LedgerData>("import-ledger.json", () => ({}));
+  }
+
+  private entryKey(realmId: string, billKey: string): string {
+    return `${realmId}:${billKey}`;
+  }
+
+  async get(realmId: string, billKey: string): Promise<LedgerEntry | null> {
+    const data = await this.store.read();
+    return data[this.entryKey(realmId, billKey)] || null;
+  }
+
+  // Merge the given IDs into the entry, creating it on first use
+  async record(
+    realmId: string,
+    billKey: string,
+    update: Partial<
+      Pick<
+        LedgerEntry,
+        | "billId"
+        | "vendorCreditId"
+        | "billPaymentId"
+        | "purchaseId"
+        | "purchaseCreditId"
+        | "journalEntryId"
+        | "invoiceIds"
+        | "attachableIds"
+        | "rowIndices"
+      >
+    >
+  ): Promise<LedgerEntry> {
+    return this.store.update((data) => {
+      const key = this.entryKey(realmId, billKey);
+      const now = new Date().toISOString();
+      const existing = data[key];
+      const entry: LedgerEntry = existing || {
+        realmId,
+        billKey,
+        invoiceIds: [],
+        attachableIds: [],
+        rowIndices: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (update.billId) entry.billId = update.billId;
+      if (update.vendorCreditId) entry.vendorCreditId = update.vendorCreditId;
+      if (update.billPaymentId) entry.billPaymentId = update.billPaymentId;
+      if (update.purchaseId) entry.purchaseId = update.purchaseId;
+      if (update.purchaseCreditId) {
+        entry.purchaseCreditId = update.purchaseCreditId;
+      }
+      if (update.journalEntryId) entry.journalEntryId = update.journalEntryId;
+      if (update.invoiceIds) {
+        entry.invoiceIds = Array.from(
+          new Set([...(entry.invoiceIds || []), ...update.invoiceIds])
+        );
+      }
+      if (update.attachableIds) {
+        entry.attachableIds = Array.from(
+          new Set([...entry.attachableIds, ...update.attachableIds])
+        );
+      }
+      if (update.rowIndices) entry.rowIndices = update.rowIndices;
+      entry.updatedAt = now;
+
+      data[key] = entry;
+      return entry;
+    });
+  }
+
+  async remove(realmId: string, billKey: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data[this.entryKey(realmId, billKey)];
+    });
+  }
+}
+
+export const importLedger = new ImportLedger();
@@ -0,0 +1,63 @@
+import { JsonStore } from "./json-store";
+import { BilledLine, InvoicedLine } from "./types";
+
+type InvoicedLineData = Record<string, InvoicedLine>;
+
+// Remembers every bill line put on an invoice, so a line QBO still reports
+// as billable (e.g. one with no reimbursable charge to link) is never
+// invoiced a second time
+export class InvoicedLineStore {
+  private store: JsonStore<InvoicedLineData>;
+
+  constructor(store?: JsonStore<InvoicedLineData>) {
+    this.store =
+      store ||
+      new JsonStore<InvoicedLineData>("invoiced-lines.json", () => ({}));
+  }
+
+  static lineKey(line: BilledLine): string {
+    return `${line.billId}:${line.lineId}`;
+  }
+
+  // Keys ("billId:lineId") of every line already invoiced in the realm
+  async list(realmId: string): Promise<Set<string>> {
+    const data = await this.store.read();
+    return new Set(
+      Object.values(data)
+        .filter((entry) => entry.realmId === realmId)
+        .map((entry) => InvoicedLineStore.lineKey(entry))
+    );
+  }
+
+  async record(
+    realmId: string,
+    invoiceId: string,
+    lines: BilledLine[]
+  ): Promise<void> {
+    await this.store.update((data) => {
+      const now = new Date().toISOString();
+      for (const line of lines) {
+        data[`${realmId}:${InvoicedLineStore.lineKey(line)}`] = {
+          realmId,
+          billId: line.billId,
+          lineId: line.lineId,
+          invoiceId,
+          invoicedAt: now,
+        };
+      }
+    });
+  }
+
+  // Frees the lines of an invoice that was deleted again
+  async removeInvoice(realmId: string, invoiceId: string): Promise<void> {
+    await this.store.update((data) => {
+      for (const [key, entry] of Object.entries(data)) {
+        if (entry.realmId === realmId && entry.invoiceId === invoiceId) {
+          delete data[key];
+        }
+      }
+    });
+  }
+}
+
+export const invoicedLineStore = new InvoicedLineStore();
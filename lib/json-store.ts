@@ -0,0 +1,54 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Local data directory for stores that must outlive a single request
+export const DATA_DIR =
+  process.env.QBO_DATA_DIR || path.join(process.cwd(), ".data");
+
+export class JsonStore<T> {
+  private filePath: string;
+  private initial: () => T;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(fileName: string, initial: () => T) {
+    this.filePath = path.join(DATA_DIR, fileName);
+    this.initial = initial;
+  }
+
+  async read(): Promise<T> {
+    await this.pending;
+    return this.load();
+  }
+
+  // Writes are chained so concurrent updates in one process never interleave
+  async update<R>(mutate: (data: T) => R): Promise<R> {
+    const next = this.pending.then(async () => {
+      const data = await this.load();
+      const result = mutate(data);
+      await this.save(data);
+      return result;
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.initial();
+      }
+      throw error;
+    }
+  }
+
+  private async save(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated store
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,33 @@
+import { MarkupRule } from "./types";
+
+export interface MarkupContext {
+  customer?: string;
+  project?: string;
+  category?: string;
+}
+
+// Rules are checked in order and the first whose scope value matches wins
+export function findMarkupRule(
+  rules: MarkupRule[],
+  context: MarkupContext
+): MarkupRule | null {
+  return (
+    rules.find((rule) => {
+      const value = context[rule.scope]?.trim().toLowerCase();
+      return !!value && value === rule.match.trim().toLowerCase();
+    }) ?? null
+  );
+}
+
+export function applyMarkup(cost: number, rule: MarkupRule | null): number {
+  if (!rule) return cost;
+  const billed =
+    rule.type === "percent" ? cost * (1 + rule.value / 100) : cost + rule.value;
+  return Math.round(billed * 100) / 100;
+}
+
+export function describeMarkup(rule: MarkupRule): string {
+  const amount =
+    rule.type === "percent" ? `${rule.value}%` : `${rule.value.toFixed(2)} fee`;
+  return `${amount} for ${rule.scope} "${rule.match}"`;
+}
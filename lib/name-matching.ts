@@ -0,0 +1,86 @@
+import { MatchCandidate } from "./types";
+
+// Legal-form suffixes that don't distinguish one company from another
+const COMPANY_SUFFIXES = new Set([
+  "co",
+  "company",
+  "corp",
+  "corporation",
+  "inc",
+  "incorporated",
+  "llc",
+  "llp",
+  "lp",
+  "ltd",
+  "limited",
+  "plc",
+  "gmbh",
+  "pty",
+]);
+
+export function normalizeName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (words[0] === "the" && words.length > 1) {
+    words.shift();
+  }
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(" ");
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// 1 for names that are identical once normalized, falling towards 0
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const longest = Math.max(left.length, right.length);
+  return 1 - editDistance(left, right) / longest;
+}
+
+export function rankCandidates(
+  name: string,
+  entities: Array<{ Id?: string; DisplayName?: string; Name?: string }>,
+  limit = 3
+): Omit<MatchCandidate, "entityType">[] {
+  return entities
+    .map((entity) => {
+      const entityName = entity.DisplayName ?? entity.Name ?? "";
+      return {
+        id: entity.Id!,
+        name: entityName,
+        score: Math.round(nameSimilarity(name, entityName) * 100) / 100,
+      };
+    })
+    .filter((candidate) => candidate.id && candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -1,24 +1,179 @@
-import { QBOService } from "./qbo-service";
+import { createHash } from "crypto";
+import { AliasStore, aliasStore } from "./alias-store";
+import { KeyedMutex, runPool } from "./concurrency";
+import { EXPENSE_ACCOUNT_TYPES, SALES_ITEM_TYPES } from "./constants";
+import { ImportLedger, importLedger } from "./import-ledger";
+import { invoicedLineStore } from "./invoiced-line-store";
+import { applyMarkup, describeMarkup, findMarkupRule } from "./markup";
+import { isStaleObjectError, QBOService } from "./qbo-service";
+import { runStore } from "./run-store";
 import {
+  AliasEntityType,
   AttachmentResult,
+  BillPayType,
+  BillScope,
+  CompensationResult,
   CSVRow,
   DryRunResult,
+  EntityAlias,
+  PostingType,
+  GlobalTaxCalculation,
+  InvoiceItemRefs,
+  LedgerEntry,
+  MatchCandidate,
   ProcessingResult,
   ProcessingSettings,
+  QBOAccount,
+  QBOBill,
+  QBOBillLine,
+  QBOBillPayment,
+  QBOExpenseLineDetail,
+  QBOCustomer,
+  QBOCustomField,
+  QBOInvoice,
+  QBOJournalEntryLine,
+  QBOPurchase,
+  QBOTaxCode,
   QBOTokens,
+  QBOVendor,
+  QBOVendorCredit,
+  Saved,
   UploadedFile,
   ValidationError,
 } from "./types";
-import { generateIdempotencyKey, parseDate, validateAmount } from "./utils";
+import {
+  generateIdempotencyKey,
+  getTransactionUrl,
+  parseDate,
+  parseExchangeRate,
+  parseLineType,
+  parsePayType,
+  parseTaxInclusive,
+  validateAmount,
+} from "./utils";
+
+// Groups that ended in these statuses are attempted again on resume; the
+// import ledger keeps a bill that was already posted from being posted twice
+const RETRY_ON_RESUME: ProcessingResult["status"][] = ["error", "needs_review"];
+
+// QBO's limit on a transaction's private note
+const MAX_PRIVATE_NOTE_LENGTH = 4000;
+// Times a bill update is diffed and sent again after a stale SyncToken
+const MAX_STALE_RETRIES = 3;
+
+// Created entities a rollback deletes; names and lists are deactivated
+const TRANSACTION_TYPES = [
+  "Bill",
+  "VendorCredit",
+  "BillPayment",
+  "Purchase",
+  "JournalEntry",
+  "Invoice",
+  "Attachable",
+] as const;
+
+type BillDetails = Pick<
+  QBOBill,
+  "DueDate" | "SalesTermRef" | "APAccountRef" | "PrivateNote"
+>;
+
+// Header fields a group's bill, vendor credit and purchase share
+type BillHeader = Omit<QBOBill, "Line">;
+
+// A thrown Error, or a node-quickbooks error carrying QBO's fault
+type QBOFailure = Error & {
+  fault?: { error?: Array<{ message?: string; detail?: string }> };
+};
+
+// Bill columns with no counterpart on a purchase
+const BILL_ONLY_FIELDS: Partial<Record<keyof CSVRow, string>> = {
+  DueDate: "Purchases have no due date",
+  Terms: "Purchases have no payment terms",
+  APAccount: "Purchases don't post to accounts payable",
+  PaymentDate: "Purchases are paid on the bill date",
+  PaidAmount: "Purchases are paid in full",
+};
+
+// The bank or credit card account a payment or purchase comes out of
+interface PaymentSource {
+  accountId: string;
+  accountName: string;
+  payType: BillPayType;
+}
+
+// A group's resolved payment section
+interface PaymentDetails extends PaymentSource {
+  date: string;
+  amount?: number; // blank pays the bill in full
+}
+
+type Ref = { value: string; name?: string };
+
+// What a bill line points at. Names are only known when previewing, and an
+// empty value stands for something that would be created.
+interface BillLineRefs {
+  customer: Ref;
+  account?: Ref;
+  item?: Ref;
+  taxCode?: Ref;
+  classRef?: Ref;
+}
+
+// A CSV line against the existing bill's line it replaces; removed lines
+// have no CSV line and added ones no existing line
+interface BillLineDiff {
+  kind: "unchanged" | "changed" | "added" | "removed";
+  position: number; // CSV order, or the existing line's order when removed
+  existing?: QBOBillLine;
+  line?: QBOBillLine;
+  changes: string[];
+}
+
+interface BillDiff {
+  header: Partial<QBOBill>; // changed header fields only
+  headerChanges: string[];
+  lines: BillLineDiff[];
+}
+
+interface CreatedEntity {
+  type: CompensationResult["entityType"];
+  id: string;
+  syncToken?: string;
+  lockKey?: string; // names and lists: the entityLocks key it was made under
+}
 
 export class CSVProcessor {
   private qboService: QBOService;
   private settings: ProcessingSettings;
-  private processedKeys: Set<string> = new Set();
+  private realmId: string;
+  private environment: "sandbox" | "production";
+  private ledger: ImportLedger;
+  private entityLocks = new KeyedMutex();
+  // The rollback list of the group that created each name or list entity
+  // this run, and those another group has resolved since, which a rollback
+  // must leave active
+  private entityCreators = new Map<string, CreatedEntity[]>();
+  private sharedEntities = new Set<string>();
+  private aliases: Promise<Map<string, EntityAlias>> | null = null;
+  private invoiceItems: Promise<InvoiceItemRefs> | null = null;
+  // Bills created by this processor, for invoicing only this run's bills
+  private runBillIds: string[] = [];
+  // Where the rows came from, for each bill's default private note
+  private sourceFile?: string;
+  private runId?: string;
 
-  constructor(tokens: QBOTokens, settings: ProcessingSettings) {
-    this.qboService = new QBOService(tokens);
+  constructor(
+    tokens: QBOTokens,
+    settings: ProcessingSettings,
+    ledger: ImportLedger = importLedger
+  ) {
+    this.qboService = new QBOService(tokens, {
+      batching: settings.useBatchApi,
+    });
     this.settings = settings;
+    this.realmId = tokens.realm_id;
+    this.environment = tokens.environment;
+    this.ledger = ledger;
   }
 
   // Check if a row is empty (all fields are empty or whitespace)
@@ -34,7 +189,9 @@ export class CSVProcessor {
       !row.Category?.trim() &&
       !row.InvoiceDate?.trim() &&
       !row.PONumber?.trim() &&
-      !row.PointOfContact?.trim()
+      !row.PointOfContact?.trim() &&
+      !row.Debit?.trim() &&
+      !row.Credit?.trim()
     );
   }
 
@@ -46,6 +203,10 @@ export class CSVProcessor {
       return errors;
     }
 
+    if (this.postsJournalEntries()) {
+      return this.validateJournalRow(row, rowIndex);
+    }
+
     // Required fields
     if (!row.BillNumber?.trim()) {
       errors.push({
@@ -98,8 +259,97 @@ export class CSVProcessor {
       });
     }
 
+    // Due date is optional but can't precede the bill
+    if (row.DueDate?.trim()) {
+      const dueDate = parseDate(row.DueDate, this.settings.strictDateParsing);
+      if (!dueDate) {
+        errors.push({
+          row: rowIndex,
+          field: "DueDate",
+          message: "Invalid due date format",
+        });
+      } else if (billDate && dueDate < billDate) {
+        errors.push({
+          row: rowIndex,
+          field: "DueDate",
+          message: "Due date is before the bill date",
+        });
+      }
+    }
+
+    // A purchase is paid in full from its payment account on the bill date
+    if (this.postsPurchases()) {
+      for (const [field, message] of Object.entries(BILL_ONLY_FIELDS)) {
+        if ((row[field as keyof CSVRow] as string)?.trim()) {
+          errors.push({ row: rowIndex, field, message });
+        }
+      }
+      if (!row.PaymentAccount?.trim()) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentAccount",
+          message: "Payment account is required for purchases",
+        });
+      }
+      if (parsePayType(row.PaymentMethod) === null) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentMethod",
+          message: "Payment method must be check or credit card",
+        });
+      }
+    } else if (this.hasPayment(row)) {
+      // Payment columns are optional, but a payment needs a date and account
+      const paymentDate = parseDate(
+        row.PaymentDate,
+        this.settings.strictDateParsing
+      );
+      if (!paymentDate) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentDate",
+          message: "Invalid payment date format",
+        });
+      } else if (billDate && paymentDate < billDate) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentDate",
+          message: "Payment date is before the bill date",
+        });
+      }
+      if (!row.PaymentAccount?.trim()) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentAccount",
+          message: "Payment account is required to pay the bill",
+        });
+      }
+      if (parsePayType(row.PaymentMethod) === null) {
+        errors.push({
+          row: rowIndex,
+          field: "PaymentMethod",
+          message: "Payment method must be check or credit card",
+        });
+      }
+      if (row.PaidAmount?.trim() && !validateAmount(row.PaidAmount)) {
+        errors.push({
+          row: rowIndex,
+          field: "PaidAmount",
+          message: "Paid amount must be a positive number",
+        });
+      }
+    }
+
+    if ((row.Memo?.trim().length ?? 0) > MAX_PRIVATE_NOTE_LENGTH) {
+      errors.push({
+        row: rowIndex,
+        field: "Memo",
+        message: `Memo is longer than ${MAX_PRIVATE_NOTE_LENGTH} characters`,
+      });
+    }
+
     // Amount validation
-    const amount = validateAmount(row.BillLineAmount);
+    const amount = validateAmount(row.BillLineAmount, true);
     if (amount === null) {
       errors.push({
         row: rowIndex,
@@ -108,7 +358,173 @@ export class CSVProcessor {
       });
     }
 
-    // Currency validation
+    errors.push(...this.validateCurrency(row, rowIndex));
+
+    // Tax columns are optional, but inclusive amounts need a code to back out
+    const taxInclusive = parseTaxInclusive(row.TaxInclusive);
+    if (taxInclusive === null) {
+      errors.push({
+        row: rowIndex,
+        field: "TaxInclusive",
+        message: "Tax inclusive must be yes/no (or inclusive/exclusive)",
+      });
+    } else if (taxInclusive && !row.TaxCode?.trim()) {
+      errors.push({
+        row: rowIndex,
+        field: "TaxCode",
+        message: "Tax code is required when amounts include tax",
+      });
+    }
+
+    // Item lines carry a quantity and unit cost that must add up to the
+    // amount
+    if (parseLineType(row.LineType) === null) {
+      errors.push({
+        row: rowIndex,
+        field: "LineType",
+        message: "Line type must be account or item",
+      });
+    } else if (this.isItemLine(row)) {
+      if (!row.Item?.trim()) {
+        errors.push({
+          row: rowIndex,
+          field: "Item",
+          message: "Item is required on item lines",
+        });
+      }
+      const quantity = Number(row.Quantity?.trim() || NaN);
+      if (!isFinite(quantity) || quantity <= 0) {
+        errors.push({
+          row: rowIndex,
+          field: "Quantity",
+          message: "Quantity must be a positive number",
+        });
+      }
+      const unitCost = validateAmount(row.UnitCost);
+      if (unitCost === null) {
+        errors.push({
+          row: rowIndex,
+          field: "UnitCost",
+          message: "Invalid unit cost format",
+        });
+      }
+      if (
+        amount !== null &&
+        unitCost !== null &&
+        quantity > 0 &&
+        Math.abs(quantity * unitCost - Math.abs(amount)) >= 0.005
+      ) {
+        errors.push({
+          row: rowIndex,
+          field: "BillLineAmount",
+          message: `Quantity × unit cost is ${(quantity * unitCost).toFixed(
+            2
+          )}, not ${Math.abs(amount).toFixed(2)}`,
+        });
+      }
+    }
+
+    // Every account line needs an expense account, named on the row or
+    // mapped from its category; never fall back to an arbitrary account
+    if (!this.isItemLine(row) && !this.mappedAccountName(row)) {
+      const category = row.Category?.trim();
+      errors.push({
+        row: rowIndex,
+        field: category ? "Category" : "AccountName",
+        message: category
+          ? `No expense account mapped for category "${category}"`
+          : "No expense account mapped for rows without a category",
+      });
+    }
+
+    return errors;
+  }
+
+  // Journal lines need an entry number, a date, an account and either a
+  // debit or a credit; names, classes and locations are optional
+  private validateJournalRow(
+    row: CSVRow,
+    rowIndex: number
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!row.BillNumber?.trim()) {
+      errors.push({
+        row: rowIndex,
+        field: "BillNumber",
+        message: "Entry number is required",
+      });
+    }
+
+    if (!parseDate(row.BillDate, this.settings.strictDateParsing)) {
+      errors.push({
+        row: rowIndex,
+        field: "BillDate",
+        message: "Invalid entry date format",
+      });
+    }
+
+    const debit = row.Debit?.trim();
+    const credit = row.Credit?.trim();
+    if (!debit === !credit) {
+      errors.push({
+        row: rowIndex,
+        field: "Debit",
+        message: debit
+          ? "A line can have a debit or a credit, not both"
+          : "Debit or credit amount is required",
+      });
+    } else if (validateAmount((debit || credit)!) === null) {
+      errors.push({
+        row: rowIndex,
+        field: debit ? "Debit" : "Credit",
+        message: `Invalid ${debit ? "debit" : "credit"} amount format`,
+      });
+    }
+
+    if (!this.mappedAccountName(row)) {
+      const category = row.Category?.trim();
+      errors.push({
+        row: rowIndex,
+        field: category ? "Category" : "AccountName",
+        message: category
+          ? `No account mapped for category "${category}"`
+          : "Account is required on journal entry lines",
+      });
+    }
+
+    if (row.ProjectName?.trim() && !row.CustomerName?.trim()) {
+      errors.push({
+        row: rowIndex,
+        field: "CustomerName",
+        message: "Customer name is required for a project",
+      });
+    }
+
+    if (row.TaxCode?.trim()) {
+      errors.push({
+        row: rowIndex,
+        field: "TaxCode",
+        message: "Tax codes aren't supported on journal entries",
+      });
+    }
+
+    if ((row.Memo?.trim().length ?? 0) > MAX_PRIVATE_NOTE_LENGTH) {
+      errors.push({
+        row: rowIndex,
+        field: "Memo",
+        message: `Memo is longer than ${MAX_PRIVATE_NOTE_LENGTH} characters`,
+      });
+    }
+
+    errors.push(...this.validateCurrency(row, rowIndex));
+
+    return errors;
+  }
+
+  private validateCurrency(row: CSVRow, rowIndex: number): ValidationError[] {
+    const errors: ValidationError[] = [];
+
     const currency = row.Currency?.trim() || this.settings.defaultCurrency;
     if (!/^[A-Z]{3}$/.test(currency)) {
       errors.push({
@@ -118,11 +534,20 @@ export class CSVProcessor {
       });
     }
 
+    if (parseExchangeRate(row.ExchangeRate) === null) {
+      errors.push({
+        row: rowIndex,
+        field: "ExchangeRate",
+        message: "Exchange rate must be a positive number",
+      });
+    }
+
     return errors;
   }
 
-  async dryRun(rows: CSVRow[]): Promise<DryRunResult[]> {
+  async dryRun(rows: CSVRow[], sourceFile?: string): Promise<DryRunResult[]> {
     const results: DryRunResult[] = [];
+    this.sourceFile = sourceFile;
 
     // Group rows by BillNumber
     const billGroups = new Map<string, { rows: CSVRow[]; indices: number[] }>();
@@ -153,8 +578,34 @@ export class CSVProcessor {
       billGroups.get(billNumber)!.indices.push(i);
     }
 
+    // Dry-run only looks up vendors (for duplicate detection)
+    if (this.settings.preloadEntities && billGroups.size > 0) {
+      await this.qboService.preloadEntities(["Vendor"]);
+    }
+
+    // Item mappings apply to every group, so check them once
+    let itemError: string | null = null;
+    if (billGroups.size > 0 && !this.postsJournalEntries()) {
+      try {
+        await this.getInvoiceItems();
+      } catch (error) {
+        itemError = (error as Error).message;
+      }
+    }
+
     // Process each bill group for dry run
     for (const [billNumber, group] of billGroups.entries()) {
+      if (this.postsJournalEntries()) {
+        results.push(
+          ...(await this.dryRunJournalEntry(
+            billNumber,
+            group.rows,
+            group.indices
+          ))
+        );
+        continue;
+      }
+
       const firstRow = group.rows[0];
       const actions: string[] = [];
       const warnings: string[] = [];
@@ -172,6 +623,117 @@ export class CSVProcessor {
         }
       }
 
+      // Mapped accounts must exist in the chart of accounts
+      const accounts: (QBOAccount | null)[] = [];
+      if (allErrors.length === 0) {
+        for (let i = 0; i < group.rows.length; i++) {
+          try {
+            accounts.push(await this.resolveLineAccount(group.rows[i]));
+          } catch (error) {
+            allErrors.push(
+              `Row ${group.indices[i] + 1}: AccountName: ${(error as Error).message}`
+            );
+          }
+        }
+      }
+      // Items must exist, or be creatable
+      const itemIds: (string | undefined)[] = [];
+      if (allErrors.length === 0) {
+        for (let i = 0; i < group.rows.length; i++) {
+          if (!this.isItemLine(group.rows[i])) {
+            itemIds.push(undefined);
+            continue;
+          }
+          try {
+            const itemId = await this.findLineItem(
+              group.rows[i],
+              accounts[i]
+            );
+            if (!itemId) await this.newItemIncomeAccount();
+            itemIds.push(itemId);
+          } catch (error) {
+            allErrors.push(
+              `Row ${group.indices[i] + 1}: Item: ${(error as Error).message}`
+            );
+          }
+        }
+      }
+      const taxCodes: (QBOTaxCode | null)[] = [];
+      if (allErrors.length === 0) {
+        for (let i = 0; i < group.rows.length; i++) {
+          try {
+            taxCodes.push(await this.resolveTaxCode(group.rows[i]));
+          } catch (error) {
+            allErrors.push(
+              `Row ${group.indices[i] + 1}: TaxCode: ${(error as Error).message}`
+            );
+          }
+        }
+        try {
+          this.taxCalculation(group.rows);
+        } catch (error) {
+          allErrors.push((error as Error).message);
+        }
+      }
+      if (itemError) {
+        allErrors.push(itemError);
+      }
+
+      // Currency problems would only surface as QBO faults halfway through
+      // posting, so report them here
+      const currency = this.rowCurrency(firstRow);
+      if (allErrors.length === 0) {
+        allErrors.push(...(await this.currencyIssues(group.rows)));
+      }
+      if (allErrors.length === 0) {
+        for (const type of ["Vendor", "Customer"] as const) {
+          const name =
+            type === "Vendor" ? firstRow.VendorName : firstRow.CustomerName;
+          const entity = await this.findExistingEntity(type, name);
+          const issue = entity
+            ? await this.entityCurrencyIssue(type, entity, name, currency)
+            : null;
+          if (issue) allErrors.push(issue);
+        }
+      }
+
+      let billDetails: BillDetails = {};
+      if (allErrors.length === 0) {
+        try {
+          billDetails = await this.resolveBillDetails(firstRow, group.indices);
+        } catch (error) {
+          allErrors.push((error as Error).message);
+        }
+      }
+
+      let payment: PaymentDetails | null = null;
+      let purchaseSource: PaymentSource | null = null;
+      let billTotal = 0;
+      if (allErrors.length === 0) {
+        try {
+          if (this.postsPurchases()) {
+            purchaseSource = await this.resolvePurchaseSource(group.rows);
+          } else {
+            payment = await this.resolvePayment(firstRow);
+          }
+          if (payment) {
+            billTotal = await this.estimateBillTotal(group.rows, taxCodes);
+            this.checkPaymentAmount(payment, billTotal);
+          }
+        } catch (error) {
+          allErrors.push((error as Error).message);
+        }
+      }
+
+      let customFields: QBOCustomField[] = [];
+      if (allErrors.length === 0) {
+        try {
+          customFields = await this.resolveCustomFields(firstRow);
+        } catch (error) {
+          allErrors.push((error as Error).message);
+        }
+      }
+
       if (allErrors.length > 0) {
         // Add error result for each row in the group
         for (const idx of group.indices) {
@@ -185,10 +747,132 @@ export class CSVProcessor {
         continue;
       }
 
-      // Simulate actions for the bill
-      actions.push(
-        `Create Bill #${billNumber} with ${group.rows.length} line item(s)`
+      let billToUpdate: QBOBill | null = null;
+      const existing = await this.ledger.get(
+        this.realmId,
+        `bill_${billNumber}`
       );
+      if (existing && this.paymentPending(existing, firstRow)) {
+        warnings.push(
+          `Bill #${billNumber} was already imported (${this.describePosted(
+            existing
+          )}) without its payment; only the payment will be recorded`
+        );
+      } else if (existing && this.skipsPosted(existing)) {
+        warnings.push(
+          `Bill #${billNumber} was already imported (${this.describePosted(
+            existing
+          )}) and will be skipped`
+        );
+      } else {
+        const vendorAlias = await this.findAlias("Vendor", firstRow.VendorName);
+        const vendorId =
+          vendorAlias?.entityId ??
+          (await this.qboService.findVendorByName(firstRow.VendorName))?.Id;
+        const duplicatePurchase =
+          vendorId && purchaseSource
+            ? await this.findDuplicatePurchase(billNumber, vendorId, group.rows)
+            : null;
+        if (duplicatePurchase) {
+          warnings.push(
+            `${
+              duplicatePurchase.Credit ? "Credit card credit" : "Purchase"
+            } #${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Purchase ID ${duplicatePurchase.Id}) and will be reported as a duplicate`
+          );
+        }
+        const duplicate =
+          vendorId && !purchaseSource
+            ? await this.qboService.findBillByDocNumber(billNumber, vendorId)
+            : null;
+        if (duplicate && this.updatesBills()) {
+          billToUpdate = duplicate;
+        } else if (duplicate) {
+          warnings.push(
+            `Bill #${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Bill ID ${duplicate.Id}) and will be reported as a duplicate`
+          );
+        }
+        const duplicateCredit =
+          vendorId &&
+          !purchaseSource &&
+          group.rows.some((row) => this.isCredit(row))
+            ? await this.qboService.findVendorCreditByDocNumber(
+                billNumber,
+                vendorId
+              )
+            : null;
+        if (duplicateCredit) {
+          warnings.push(
+            `Vendor credit #${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Vendor Credit ID ${duplicateCredit.Id}) and will be reported as a duplicate`
+          );
+        }
+      }
+
+      // In update mode an existing bill is diffed against the group
+      let billDiff: BillDiff | null = null;
+      if (billToUpdate) {
+        let issue = this.billUpdateIssue(billToUpdate, group.rows, currency);
+        if (!issue) {
+          billDiff = this.diffBill(
+            billToUpdate,
+            await this.planBillHeader(firstRow, billDetails, group.rows),
+            await this.planBillLines(group.rows, accounts, itemIds, taxCodes)
+          );
+          issue = this.billedLineIssue(billToUpdate, billDiff);
+        }
+        if (issue) {
+          for (const idx of group.indices) {
+            results.push({
+              rowIndex: idx,
+              actions: [],
+              warnings,
+              errors: [issue],
+            });
+          }
+          continue;
+        }
+        if (!this.hasBillChanges(billDiff!)) {
+          for (const idx of group.indices) {
+            results.push({
+              rowIndex: idx,
+              actions: [
+                `Bill #${billNumber} (Bill ID ${billToUpdate.Id}) already matches the CSV; nothing will be updated`,
+              ],
+              warnings,
+              errors: [],
+            });
+          }
+          continue;
+        }
+      }
+
+      // Simulate actions for the bill; negative lines become a vendor credit
+      const creditCount = group.rows.filter((row) => this.isCredit(row)).length;
+      const billCount = group.rows.length - creditCount;
+      if (purchaseSource) {
+        const from = `"${purchaseSource.accountName}"`;
+        if (billCount > 0) {
+          actions.push(
+            `Create Purchase #${billNumber} with ${billCount} line item(s), paid by ${
+              purchaseSource.payType === "Check" ? "check" : "credit card"
+            } from ${from}`
+          );
+        }
+        if (creditCount > 0) {
+          actions.push(
+            `Create Credit Card Credit #${billNumber} with ${creditCount} line item(s) for the negative amounts, refunded to ${from}`
+          );
+        }
+      } else if (billDiff) {
+        actions.push(...this.describeBillUpdate(billToUpdate!, billDiff));
+      } else if (billCount > 0) {
+        actions.push(`Create Bill #${billNumber} with ${billCount} line item(s)`);
+      }
+      if (creditCount > 0 && !purchaseSource) {
+        actions.push(
+          `Create Vendor Credit #${billNumber} with ${creditCount} line item(s) for the negative amounts`
+        );
+      }
+      await this.describeCurrency(firstRow, actions, warnings);
       actions.push(`Find or create Customer: "${firstRow.CustomerName}"`);
       actions.push(`Find or create Vendor: "${firstRow.VendorName}"`);
 
@@ -197,6 +881,26 @@ export class CSVProcessor {
           `Find or create Department/Location: "${firstRow.Location}"`
         );
       }
+      if (billDetails.DueDate) {
+        actions.push(`Due date: ${billDetails.DueDate}`);
+      }
+      if (billDetails.SalesTermRef) {
+        actions.push(`Terms: "${firstRow.Terms.trim()}"`);
+      }
+      if (billDetails.APAccountRef) {
+        actions.push(`A/P account: "${firstRow.APAccount.trim()}"`);
+      }
+      actions.push(`Private note: "${billDetails.PrivateNote}"`);
+      if (payment) {
+        const paid = payment.amount ?? billTotal;
+        actions.push(
+          `Pay Bill #${billNumber}: ${paid.toFixed(2)} of ${billTotal.toFixed(
+            2
+          )}${paid < billTotal ? " (partial payment)" : ""} by ${
+            payment.payType === "Check" ? "check" : "credit card"
+          } from "${payment.accountName}" on ${payment.date}`
+        );
+      }
 
       // Add actions for each line item
       for (let i = 0; i < group.rows.length; i++) {
@@ -211,6 +915,63 @@ export class CSVProcessor {
         if (row.Category?.trim()) {
           actions.push(`    Category/Class: "${row.Category}"`);
         }
+        const account = accounts[i];
+        if (this.isItemLine(row)) {
+          actions.push(
+            `    Item: "${row.Item.trim()}", ${row.Quantity.trim()} × ${validateAmount(
+              row.UnitCost
+            )!.toFixed(2)}${itemIds[i] ? "" : " (will be created)"}`
+          );
+        }
+        if (account) {
+          actions.push(
+            `    Expense account: "${account.FullyQualifiedName ?? account.Name}"`
+          );
+        }
+        if (this.isCredit(row)) {
+          actions.push(
+            purchaseSource
+              ? `    Credit card credit line`
+              : `    Vendor credit line (not invoiced)`
+          );
+        } else if (!purchaseSource) {
+          actions.push(
+            `    Invoice item: "${
+              this.isItemLine(row) ? row.Item.trim() : this.mappedItemName(row)
+            }"`
+          );
+        }
+
+        const taxCode = taxCodes[i];
+        const inclusive = parseTaxInclusive(row.TaxInclusive);
+        let tax = 0;
+        if (taxCode) {
+          const amount = Math.abs(validateAmount(row.BillLineAmount, true)!);
+          const rate = await this.qboService.getTaxRate(taxCode, "Purchase");
+          tax = inclusive ? amount - amount / (1 + rate) : amount * rate;
+          actions.push(
+            `    Tax: ${taxCode.Name} at ${(rate * 100).toFixed(
+              2
+            )}% = ${tax.toFixed(2)} (${
+              inclusive ? "included in" : "added to"
+            } the line amount)`
+          );
+        }
+
+        if (this.isCredit(row) || purchaseSource) continue;
+        // Invoices bill the bill line's net amount, tax is added on top
+        const cost =
+          validateAmount(row.BillLineAmount)! - (inclusive ? tax : 0);
+        const rule = findMarkupRule(this.settings.markupRules ?? [], {
+          customer: row.CustomerName,
+          project: row.ProjectName,
+          category: row.Category,
+        });
+        actions.push(
+          `    Cost ${cost.toFixed(2)}, billed ${applyMarkup(cost, rule).toFixed(
+            2
+          )}${rule ? ` (${describeMarkup(rule)})` : " (no markup)"}`
+        );
       }
 
       // Collect all unique attachments
@@ -221,23 +982,84 @@ export class CSVProcessor {
         attachments.forEach((f) => allAttachments.add(f.trim()));
       }
 
-      if (allAttachments.size > 0) {
+      // An updated bill keeps the files it already has
+      const attachedFileNames =
+        billToUpdate && allAttachments.size > 0
+          ? await this.qboService.findAttachmentFileNames(
+              "Bill",
+              billToUpdate.Id!
+            )
+          : new Set<string>();
+      const alreadyAttached = Array.from(allAttachments).filter((f) =>
+        attachedFileNames.has(f)
+      );
+      const toAttach = Array.from(allAttachments).filter(
+        (f) => !attachedFileNames.has(f)
+      );
+      if (alreadyAttached.length > 0) {
         actions.push(
-          `Attach ${allAttachments.size} file(s) to Bill: ${Array.from(
-            allAttachments
-          ).join(", ")}`
+          `Skip ${alreadyAttached.length} file(s) already attached to Bill ID ${
+            billToUpdate!.Id
+          }: ${alreadyAttached.join(", ")}`
+        );
+      }
+      if (toAttach.length > 0) {
+        actions.push(
+          `Attach ${toAttach.length} file(s) to ${
+            purchaseSource ? "Purchase" : "Bill"
+          }: ${toAttach.join(", ")}`
         );
-        if (this.settings.alsoAttachToInvoice) {
-          actions.push(`Also attach files to Invoice`);
-        }
+      }
+      if (
+        allAttachments.size > 0 &&
+        this.settings.alsoAttachToInvoice &&
+        !purchaseSource
+      ) {
+        actions.push(`Also attach files to each Invoice`);
       }
 
-      actions.push(`Create Invoice from billable expenses`);
-      if (firstRow.PONumber?.trim()) {
+      if (purchaseSource) {
+        warnings.push(
+          "Purchases are not invoiced; their lines are marked billable to each project so they can be invoiced in QuickBooks"
+        );
+      }
+      // An updated bill is only invoiced for projects it newly bills
+      const billableProjects = billDiff
+        ? (await this.newlyBillableProjects(billToUpdate!.Id!, billDiff)).map(
+            (project) => project.name?.trim()
+          )
+        : null;
+      const projects = Array.from(
+        new Set(
+          group.rows
+            .filter((row) => !this.isCredit(row) && !purchaseSource)
+            .map((row) => row.ProjectName.trim())
+            .filter(
+              (project) =>
+                !billableProjects || billableProjects.includes(project)
+            )
+        )
+      );
+      if (billDiff && !purchaseSource && projects.length === 0) {
+        actions.push(
+          "No invoice: the update adds no billable lines that aren't invoiced yet"
+        );
+      }
+      const scope = this.settings.invoiceRunBillsOnly
+        ? "on bills created in this run"
+        : `on bills dated ${this.billScope(firstRow).since} or later`;
+      for (const project of projects) {
+        actions.push(
+          `Create Invoice for project "${project}" from billable expenses ${scope}`
+        );
+      }
+      if (firstRow.PONumber?.trim() && projects.length > 0) {
         actions.push(`Set PO Number: ${firstRow.PONumber}`);
       }
-      if (firstRow.PointOfContact?.trim()) {
-        actions.push(`Set Point of Contact: "${firstRow.PointOfContact}"`);
+      for (const field of projects.length > 0 ? customFields : []) {
+        actions.push(
+          `Set custom field "${field.Name}": "${field.StringValue}"`
+        );
       }
 
       // Add the same result for each row in the group
@@ -271,10 +1093,13 @@ export class CSVProcessor {
 
       // Check idempotency
       const idempotencyKey = generateIdempotencyKey(row, rowIndex);
-      if (this.processedKeys.has(idempotencyKey)) {
+      const existing = await this.ledger.get(this.realmId, idempotencyKey);
+      if (existing?.billId) {
         return {
           rowIndex,
           status: "skipped",
+          billId: existing.billId,
+          invoiceIds: existing.invoiceIds,
           idempotencyKey,
         };
       }
@@ -288,7 +1113,37 @@ export class CSVProcessor {
           error: errors.map((e) => `${e.field}: ${e.message}`).join("; "),
         };
       }
-
+      if (this.postsPurchases() || this.postsJournalEntries()) {
+        return {
+          rowIndex,
+          status: "error",
+          error:
+            "Purchases and journal entries are only imported when rows are grouped by number",
+        };
+      }
+      if (this.isCredit(row)) {
+        return {
+          rowIndex,
+          status: "error",
+          error:
+            "BillLineAmount: Negative amounts are imported as vendor credits only when rows are grouped by bill number",
+        };
+      }
+      if (this.isItemLine(row)) {
+        return {
+          rowIndex,
+          status: "error",
+          error:
+            "LineType: Item lines are only supported when rows are grouped by bill number",
+        };
+      }
+
+      const expenseAccount = await this.resolveExpenseAccount(row);
+      const taxCode = await this.resolveTaxCode(row);
+      const taxCalculation = this.taxCalculation([row]);
+      const billDetails = await this.resolveBillDetails(row, [rowIndex]);
+      await this.getInvoiceItems();
+
       // Step 1: Upsert Customer
       let customer = await this.qboService.findCustomerByName(row.CustomerName);
       if (!customer) {
@@ -390,14 +1245,16 @@ export class CSVProcessor {
         row.BillDate,
         this.settings.strictDateParsing
       )!;
-      const expenseAccountId = await this.qboService.getExpenseAccount();
-
       const lineDetail: any = {
-        AccountRef: { value: expenseAccountId },
+        AccountRef: { value: expenseAccount.Id },
         CustomerRef: { value: subCustomer.Id! },
         BillableStatus: "Billable",
       };
 
+      if (taxCode) {
+        lineDetail.TaxCodeRef = { value: taxCode.Id };
+      }
+
       if (classId) {
         lineDetail.ClassRef = { value: classId };
       }
@@ -414,13 +1271,25 @@ export class CSVProcessor {
           },
         ],
         CurrencyRef: row.Currency ? { value: row.Currency } : undefined,
+        GlobalTaxCalculation: taxCalculation,
+        ...billDetails,
       };
 
       if (departmentId) {
         billData.DepartmentRef = { value: departmentId };
       }
 
+      const exchangeRate = parseExchangeRate(row.ExchangeRate);
+      if (exchangeRate) {
+        billData.ExchangeRate = exchangeRate;
+      }
+
       const bill = await this.qboService.createBill(billData);
+      this.runBillIds.push(bill.Id);
+      await this.ledger.record(this.realmId, idempotencyKey, {
+        billId: bill.Id,
+        rowIndices: [rowIndex],
+      });
 
       // Step 6: Attach files to Bill
       const attachmentResults: AttachmentResult[] = [];
@@ -462,13 +1331,11 @@ export class CSVProcessor {
         row.InvoiceDate,
         this.settings.strictDateParsing
       )!;
-      const invoice = await this.qboService.createInvoiceFromBillableExpenses(
+      const invoice = (await this.invoiceBillableExpenses(
         subCustomer.Id!,
         invoiceDate.toISOString().split("T")[0],
-        row.PONumber,
-        row.PointOfContact,
-        row.Currency || this.settings.defaultCurrency
-      );
+        row
+      ))!;
 
       // Step 7: Optionally attach files to Invoice
       if (this.settings.alsoAttachToInvoice) {
@@ -490,7 +1357,12 @@ export class CSVProcessor {
       }
 
       // Mark as processed
-      this.processedKeys.add(idempotencyKey);
+      await this.ledger.record(this.realmId, idempotencyKey, {
+        invoiceIds: [invoice.Id],
+        attachableIds: attachmentResults
+          .filter((a) => a.attachableId)
+          .map((a) => a.attachableId!),
+      });
 
       return {
         rowIndex,
@@ -499,7 +1371,7 @@ export class CSVProcessor {
         subCustomerId: subCustomer.Id,
         vendorId: vendor.Id,
         billId: bill.Id,
-        invoiceId: invoice.Id,
+        invoiceIds: [invoice.Id],
         attachmentResults,
         idempotencyKey,
       };
@@ -534,9 +1406,13 @@ export class CSVProcessor {
   async processAll(
     rows: CSVRow[],
     attachments: Map<string, UploadedFile>,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    runId?: string,
+    sourceFile?: string
   ): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
+    this.runId = runId;
+    this.sourceFile = sourceFile;
 
     // Group rows by BillNumber
     const billGroups = new Map<string, { rows: CSVRow[]; indices: number[] }>();
@@ -571,28 +1447,81 @@ export class CSVProcessor {
       billGroups.get(billNumber)!.indices.push(i);
     }
 
-    // Process each bill group
+    if (this.settings.preloadEntities && billGroups.size > 0) {
+      await this.qboService.preloadEntities();
+    }
+
+    // Checkpoint each group under the run ID so an interrupted run can resume
+    const run = runId
+      ? await runStore.start(
+          runId,
+          this.realmId,
+          billGroups.size,
+          createHash("sha256").update(JSON.stringify(rows)).digest("hex")
+        )
+      : null;
+
+    // Process bill groups through a bounded pool; results are collected per
+    // group and flattened afterwards so row order doesn't depend on timing
     let processedCount = 0;
-    for (const [billNumber, group] of billGroups.entries()) {
-      const billResult = await this.processBillGroup(
-        billNumber,
-        group.rows,
-        group.indices,
-        attachments
-      );
+    const groupResults = await runPool(
+      Array.from(billGroups.entries()),
+      this.settings.concurrency || 1,
+      async ([billNumber, group]) => {
+        // Groups already settled in an earlier attempt keep their result
+        const checkpoint = run?.groups[billNumber];
+        let billResult: Omit<ProcessingResult, "rowIndex">;
+
+        if (
+          checkpoint &&
+          !RETRY_ON_RESUME.includes(checkpoint.result.status)
+        ) {
+          billResult = checkpoint.result;
+        } else {
+          billResult = this.postsJournalEntries()
+            ? await this.processJournalGroup(
+                billNumber,
+                group.rows,
+                group.indices,
+                attachments
+              )
+            : await this.processBillGroup(
+                billNumber,
+                group.rows,
+                group.indices,
+                attachments
+              );
+          if (runId) {
+            await runStore.checkpoint(
+              runId,
+              billNumber,
+              group.indices,
+              billResult
+            );
+          }
+        }
+
+        processedCount += group.rows.length;
+        if (onProgress) {
+          onProgress(processedCount, rows.length);
+        }
+
+        return { group, billResult };
+      }
+    );
 
-      // Add results for each row in the group
+    // Add results for each row in each group
+    for (const { group, billResult } of groupResults) {
       for (let i = 0; i < group.indices.length; i++) {
         results.push({
           ...billResult,
           rowIndex: group.indices[i],
         });
       }
+    }
 
-      processedCount += group.rows.length;
-      if (onProgress) {
-        onProgress(processedCount, rows.length);
-      }
+    if (runId) {
+      await runStore.finish(runId);
     }
 
     return results;
@@ -604,6 +1533,9 @@ export class CSVProcessor {
     indices: number[],
     attachments: Map<string, UploadedFile>
   ): Promise<Omit<ProcessingResult, "rowIndex">> {
+    // Everything created for this group, in creation order, for rollback
+    const created: CreatedEntity[] = [];
+
     try {
       // Use the first row for bill-level information
       const firstRow = rows[0];
@@ -624,271 +1556,2578 @@ export class CSVProcessor {
 
       // Check idempotency for the bill
       const idempotencyKey = `bill_${billNumber}`;
-      if (this.processedKeys.has(idempotencyKey)) {
+      const existing = await this.ledger.get(this.realmId, idempotencyKey);
+      if (existing && this.paymentPending(existing, firstRow)) {
+        return await this.resumeBillPayment(
+          billNumber,
+          existing,
+          firstRow,
+          idempotencyKey,
+          created
+        );
+      }
+      if (existing && this.skipsPosted(existing)) {
+        const posted = this.describePosted(existing);
         return {
           status: "skipped",
-          message: `Bill ${billNumber} already processed`,
+          billId: existing.billId,
+          vendorCreditId: existing.vendorCreditId,
+          billPaymentId: existing.billPaymentId,
+          purchaseId: existing.purchaseId,
+          purchaseCreditId: existing.purchaseCreditId,
+          invoiceIds: existing.invoiceIds,
+          message:
+            existing.billId && !existing.invoiceIds?.length
+              ? `Bill ${billNumber} already imported (${posted}) but no invoice was recorded`
+              : `Bill ${billNumber} already imported (${posted})`,
           idempotencyKey,
         };
       }
 
-      // Step 1: Upsert Customer (from first row)
-      let customer = await this.qboService.findCustomerByName(
-        firstRow.CustomerName
-      );
-      if (!customer) {
-        if (this.settings.autoCreate) {
-          customer = await this.qboService.createCustomer(
-            firstRow.CustomerName
-          );
-        } else {
+      // Resolve every line's account before anything is created, so a bad
+      // mapping can't leave half a group behind
+      const expenseAccountIds: (string | undefined)[] = [];
+      const taxCodeIds: (string | undefined)[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        try {
+          const account = await this.resolveLineAccount(rows[i]);
+          expenseAccountIds.push(account?.Id);
+          if (this.isItemLine(rows[i])) {
+            const itemId = await this.findLineItem(rows[i], account);
+            if (!itemId) await this.newItemIncomeAccount();
+          }
+        } catch (error) {
           return {
-            status: "needs_review",
-            error: `Customer "${firstRow.CustomerName}" not found. Enable auto-create or create manually.`,
+            status: "error",
+            error: `Row ${indices[i] + 1}: ${
+              this.isItemLine(rows[i]) ? "Item" : "AccountName"
+            }: ${(error as Error).message}`,
+          };
+        }
+        try {
+          taxCodeIds.push((await this.resolveTaxCode(rows[i]))?.Id);
+        } catch (error) {
+          return {
+            status: "error",
+            error: `Row ${indices[i] + 1}: TaxCode: ${(error as Error).message}`,
           };
         }
       }
+      const taxCalculation = this.taxCalculation(rows);
+      await this.getInvoiceItems();
 
-      // Step 2: Upsert Vendor (from first row)
-      let vendor = await this.qboService.findVendorByName(firstRow.VendorName);
-      if (!vendor) {
-        if (this.settings.autoCreate) {
-          vendor = await this.qboService.createVendor(firstRow.VendorName);
+      let billDetails: BillDetails;
+      let payment: PaymentDetails | null = null;
+      let purchaseSource: PaymentSource | null = null;
+      try {
+        billDetails = await this.resolveBillDetails(firstRow, indices);
+        await this.resolveCustomFields(firstRow);
+        if (this.postsPurchases()) {
+          purchaseSource = await this.resolvePurchaseSource(rows);
         } else {
-          return {
-            status: "needs_review",
-            error: `Vendor "${firstRow.VendorName}" not found. Enable auto-create or create manually.`,
-          };
+          payment = await this.resolvePayment(firstRow);
         }
+        if (payment && rows.every((row) => this.isCredit(row))) {
+          this.checkPaymentAmount(payment, 0);
+        }
+      } catch (error) {
+        return { status: "error", error: (error as Error).message };
       }
 
-      // Step 3: Find or Create Department/Location if specified
-      let departmentId: string | undefined;
-      if (firstRow.Location?.trim()) {
-        console.log(
-          `Looking for Location/Department: "${firstRow.Location.trim()}"`
+      const currencyIssues = await this.currencyIssues(rows);
+      if (currencyIssues.length > 0) {
+        return { status: "error", error: currencyIssues.join("; ") };
+      }
+      const currency = this.rowCurrency(firstRow);
+      const exchangeRate = parseExchangeRate(firstRow.ExchangeRate);
+      const newEntityCurrency = await this.newEntityCurrency(currency);
+
+      // Find-or-create steps are locked per name so groups running
+      // concurrently never create the same entity twice
+      const matchNotes: string[] = [];
+
+      // Step 1: Upsert Customer (from first row)
+      const { entity: customer, candidates: customerCandidates } =
+        await this.findOrCreateParty(
+          "Customer",
+          firstRow.CustomerName,
+          created,
+          matchNotes,
+          newEntityCurrency
         );
-        let department = await this.qboService.findDepartmentByName(
-          firstRow.Location.trim()
+      if (!customer) {
+        return {
+          status: "needs_review",
+          error: `Customer "${firstRow.CustomerName}" not found. Enable auto-create or create manually.`,
+          candidates: customerCandidates,
+          unresolved: { entityType: "Customer", name: firstRow.CustomerName },
+        };
+      }
+      const customerCurrencyIssue = await this.entityCurrencyIssue(
+        "Customer",
+        customer,
+        firstRow.CustomerName,
+        currency
+      );
+      if (customerCurrencyIssue) throw new Error(customerCurrencyIssue);
+
+      // Step 2: Upsert Vendor (from first row)
+      const { entity: vendor, candidates: vendorCandidates } =
+        await this.findOrCreateParty(
+          "Vendor",
+          firstRow.VendorName,
+          created,
+          matchNotes,
+          newEntityCurrency
         );
-        if (department) {
-          departmentId = department.Id;
-          console.log(`Found Department ID: ${departmentId}`);
-        } else {
-          console.log(
-            `Department "${firstRow.Location.trim()}" not found in QuickBooks`
-          );
-          if (this.settings.autoCreate) {
-            console.log(
-              `Auto-creating Department: "${firstRow.Location.trim()}"`
-            );
-            department = await this.qboService.createDepartment(
-              firstRow.Location.trim()
-            );
-            departmentId = department.Id;
-            console.log(`Created Department ID: ${departmentId}`);
-          } else {
-            console.log(
-              `Auto-create disabled. Department will not be set on bill.`
-            );
-          }
-        }
+      if (!vendor) {
+        return {
+          status: "needs_review",
+          error: `Vendor "${firstRow.VendorName}" not found. Enable auto-create or create manually.`,
+          candidates: vendorCandidates,
+          unresolved: { entityType: "Vendor", name: firstRow.VendorName },
+        };
+      }
+      const vendorCurrencyIssue = await this.entityCurrencyIssue(
+        "Vendor",
+        vendor,
+        firstRow.VendorName,
+        currency
+      );
+      if (vendorCurrencyIssue) throw new Error(vendorCurrencyIssue);
+
+      // Pre-flight: QBO accepts duplicate bill numbers, so check ourselves
+      const duplicatePurchase = purchaseSource
+        ? await this.findDuplicatePurchase(billNumber, vendor.Id!, rows)
+        : null;
+      if (duplicatePurchase) {
+        return {
+          status: "duplicate",
+          customerId: customer.Id,
+          vendorId: vendor.Id,
+          ...(duplicatePurchase.Credit
+            ? { purchaseCreditId: duplicatePurchase.Id }
+            : { purchaseId: duplicatePurchase.Id }),
+          idempotencyKey,
+          message: `${
+            duplicatePurchase.Credit ? "Credit card credit" : "Purchase"
+          } ${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Purchase ID ${duplicatePurchase.Id})`,
+        };
+      }
+      const hasBillLines =
+        !purchaseSource && rows.some((row) => !this.isCredit(row));
+      const hasCreditLines =
+        !purchaseSource && rows.some((row) => this.isCredit(row));
+      const duplicate = hasBillLines
+        ? await this.qboService.findBillByDocNumber(billNumber, vendor.Id!)
+        : null;
+      const billToUpdate = duplicate && this.updatesBills() ? duplicate : null;
+      if (billToUpdate) {
+        const issue = this.billUpdateIssue(billToUpdate, rows, currency);
+        if (issue) return { status: "error", error: issue };
+      } else if (duplicate) {
+        return {
+          status: "duplicate",
+          customerId: customer.Id,
+          vendorId: vendor.Id,
+          billId: duplicate.Id,
+          billUrl: getTransactionUrl(this.environment, "bill", duplicate.Id!),
+          idempotencyKey,
+          message: `Bill ${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Bill ID ${duplicate.Id})`,
+        };
+      }
+      const duplicateCredit = hasCreditLines
+        ? await this.qboService.findVendorCreditByDocNumber(
+            billNumber,
+            vendor.Id!
+          )
+        : null;
+      if (duplicateCredit) {
+        return {
+          status: "duplicate",
+          customerId: customer.Id,
+          vendorId: vendor.Id,
+          vendorCreditId: duplicateCredit.Id,
+          idempotencyKey,
+          message: `Vendor credit ${billNumber} already exists in QuickBooks for vendor "${firstRow.VendorName}" (Vendor Credit ID ${duplicateCredit.Id})`,
+        };
       }
 
+      // Step 3: Find or Create Department/Location if specified
+      const location = firstRow.Location?.trim();
+      const departmentId = location
+        ? await this.findOrCreateDepartment(location, created)
+        : undefined;
+
       // Step 4: Create line items for each row
-      const expenseAccountId = await this.qboService.getExpenseAccount();
-      const billLines: any[] = [];
+      const billLines: QBOBillLine[] = [];
+      const creditLines: QBOBillLine[] = [];
       const allSubCustomerIds: string[] = [];
 
-      for (const row of rows) {
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
         // Upsert Sub-Customer (Project) for each line
-        let subCustomer = await this.qboService.findCustomerByName(
-          row.ProjectName
+        const subCustomer = await this.findOrCreateProject(
+          row.ProjectName,
+          customer.Id!,
+          created
         );
-        if (!subCustomer) {
-          subCustomer = await this.qboService.createCustomer(
-            row.ProjectName,
-            customer.Id
-          );
-        }
         allSubCustomerIds.push(subCustomer.Id!);
 
         // Find or Create Category/Class if specified
-        let classId: string | undefined;
-        if (row.Category?.trim()) {
-          console.log(`Looking for Category/Class: "${row.Category.trim()}"`);
-          let classObj = await this.qboService.findClassByName(
-            row.Category.trim()
-          );
-          if (classObj) {
-            classId = classObj.Id;
-            console.log(`Found Class ID: ${classId}`);
-          } else {
-            console.log(
-              `Class "${row.Category.trim()}" not found in QuickBooks`
+        const category = row.Category?.trim();
+        const classId = category
+          ? await this.findOrCreateClass(category, created)
+          : undefined;
+
+        // Find or Create the Item on item lines
+        let itemId: string | undefined;
+        if (this.isItemLine(row)) {
+          const itemName = row.Item.trim();
+          const lockKey = `Item:${itemName}`;
+          itemId = await this.entityLocks.run(lockKey, async () => {
+            const found = await this.findLineItem(
+              row,
+              expenseAccountIds[i] ? { Id: expenseAccountIds[i]! } : null
             );
-            if (this.settings.autoCreate) {
-              console.log(`Auto-creating Class: "${row.Category.trim()}"`);
-              classObj = await this.qboService.createClass(row.Category.trim());
-              classId = classObj.Id;
-              console.log(`Created Class ID: ${classId}`);
-            } else {
-              console.log(
-                `Auto-create disabled. Class will not be set on line item.`
-              );
+            if (found) {
+              this.useEntity("Item", found, created);
+              return found;
             }
-          }
-        }
 
-        const amount = validateAmount(row.BillLineAmount)!;
-        const lineDetail: any = {
-          AccountRef: { value: expenseAccountId },
-          CustomerRef: { value: subCustomer.Id! },
-          BillableStatus: "Billable",
-        };
-
-        if (classId) {
-          lineDetail.ClassRef = { value: classId };
+            console.log(`Auto-creating Item: "${itemName}"`);
+            const newItem = await this.qboService.createItem(
+              itemName,
+              expenseAccountIds[i]!,
+              await this.newItemIncomeAccount()
+            );
+            this.recordCreated(created, {
+              type: "Item",
+              id: newItem.Id,
+              syncToken: newItem.SyncToken,
+              lockKey,
+            });
+            console.log(`Created Item ID: ${newItem.Id}`);
+            return newItem.Id;
+          });
         }
 
-        billLines.push({
-          DetailType: "AccountBasedExpenseLineDetail",
-          Amount: amount,
-          Description: row.BillLineDescription,
-          AccountBasedExpenseLineDetail: lineDetail,
-        });
+        (this.isCredit(row) ? creditLines : billLines).push(
+          this.buildBillLine(row, {
+            customer: { value: subCustomer.Id! },
+            account: expenseAccountIds[i]
+              ? { value: expenseAccountIds[i]! }
+              : undefined,
+            item: itemId ? { value: itemId } : undefined,
+            taxCode: taxCodeIds[i] ? { value: taxCodeIds[i]! } : undefined,
+            classRef: classId ? { value: classId } : undefined,
+          })
+        );
       }
 
-      // Step 5: Create Bill with all line items
+      // Step 5: Create the Bill for positive lines and a Vendor Credit for
+      // negative ones, both under the group's number
       const billDate = parseDate(
         firstRow.BillDate,
         this.settings.strictDateParsing
       )!;
-      const billData: any = {
+      const header: BillHeader = {
         DocNumber: billNumber,
         VendorRef: { value: vendor.Id! },
         TxnDate: billDate.toISOString().split("T")[0],
-        Line: billLines,
         CurrencyRef: firstRow.Currency
           ? { value: firstRow.Currency }
           : undefined,
+        GlobalTaxCalculation: taxCalculation,
       };
 
       if (departmentId) {
-        billData.DepartmentRef = { value: departmentId };
+        header.DepartmentRef = { value: departmentId };
       }
 
-      const bill = await this.qboService.createBill(billData);
+      if (exchangeRate) {
+        header.ExchangeRate = exchangeRate;
+      }
 
-      // Step 6: Attach files to Bill (collect all unique files from all rows)
-      const attachmentResults: AttachmentResult[] = [];
-      const allFileNames = new Set<string>();
+      let bill: Saved<QBOBill> | null = null;
+      let billDiff: BillDiff | null = null;
+      if (billToUpdate) {
+        // An update can't be undone by deleting, so it never joins `created`
+        const update = await this.updateExistingBill(
+          billToUpdate,
+          this.billUpdateFields(
+            firstRow,
+            header.DepartmentRef,
+            billDetails,
+            taxCalculation
+          ),
+          billLines
+        );
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          billId: billToUpdate.Id,
+          rowIndices: indices,
+        });
+        if (!update) {
+          return {
+            status: "skipped",
+            customerId: customer.Id,
+            vendorId: vendor.Id,
+            billId: billToUpdate.Id,
+            billUrl: getTransactionUrl(
+              this.environment,
+              "bill",
+              billToUpdate.Id!
+            ),
+            idempotencyKey,
+            message: `Bill ${billNumber} already matches the CSV (Bill ID ${billToUpdate.Id}); nothing to update`,
+          };
+        }
+        bill = update.bill;
+        billDiff = update.diff;
+        this.runBillIds.push(bill.Id);
+      } else if (billLines.length > 0 && !purchaseSource) {
+        bill = await this.qboService.createBill({
+          ...header,
+          Line: billLines,
+          ...billDetails,
+        });
+        created.push({ type: "Bill", id: bill.Id });
+        this.runBillIds.push(bill.Id);
 
-      for (const row of rows) {
-        const fileNames =
-          row.AttachmentFiles?.split(";").filter((f) => f.trim()) || [];
-        fileNames.forEach((f) => allFileNames.add(f.trim()));
+        // Record the bill immediately so a later failure can't cause a
+        // re-post
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          billId: bill.Id,
+          rowIndices: indices,
+        });
       }
 
-      for (const fileName of allFileNames) {
-        const file = attachments.get(fileName);
-        if (file) {
-          try {
-            const attachable = await this.qboService.uploadAttachment(
-              file,
-              "Bill",
-              bill.Id
-            );
-            attachmentResults.push({
-              filename: fileName,
-              attachableId: attachable.Id,
-              status: "success",
-            });
-          } catch (error: any) {
-            attachmentResults.push({
-              filename: fileName,
-              status: "error",
-              error: error.message,
-            });
-          }
-        } else {
-          attachmentResults.push({
-            filename: fileName,
-            status: "error",
-            error: "File not found in uploads",
-          });
-        }
+      // Step 5b: Pay the bill, in full unless a partial amount is given
+      let billPayment: Saved<QBOBillPayment> | null = null;
+      if (payment) {
+        billPayment = await this.payBill(bill!, payment);
+        created.push({ type: "BillPayment", id: billPayment.Id });
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          billPaymentId: billPayment.Id,
+        });
+      }
+
+      let vendorCredit: Saved<QBOVendorCredit> | null = null;
+      if (creditLines.length > 0 && !purchaseSource) {
+        vendorCredit = await this.qboService.createVendorCredit({
+          ...header,
+          Line: creditLines,
+          APAccountRef: billDetails.APAccountRef,
+          PrivateNote: billDetails.PrivateNote,
+        });
+        created.push({ type: "VendorCredit", id: vendorCredit.Id });
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          vendorCreditId: vendorCredit.Id,
+          rowIndices: indices,
+        });
+      }
+
+      // Step 5 (purchases): the same lines, paid from the payment account;
+      // negative ones are credited back to the card
+      let purchase: Saved<QBOPurchase> | null = null;
+      let purchaseCredit: Saved<QBOPurchase> | null = null;
+      if (purchaseSource && billLines.length > 0) {
+        purchase = await this.qboService.createPurchase(
+          this.buildPurchase(header, purchaseSource, billLines, billDetails)
+        );
+        created.push({ type: "Purchase", id: purchase.Id });
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          purchaseId: purchase.Id,
+          rowIndices: indices,
+        });
+      }
+      if (purchaseSource && creditLines.length > 0) {
+        purchaseCredit = await this.qboService.createPurchase({
+          ...this.buildPurchase(
+            header,
+            purchaseSource,
+            creditLines,
+            billDetails
+          ),
+          Credit: true,
+        });
+        created.push({ type: "Purchase", id: purchaseCredit.Id });
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          purchaseCreditId: purchaseCredit.Id,
+          rowIndices: indices,
+        });
       }
 
+      // Files go on the bill, or on the credit when there is no bill
+      const posted = bill ?? vendorCredit ?? purchase ?? purchaseCredit;
+      const attachTo: {
+        type: "Bill" | "VendorCredit" | "Purchase";
+        id: string;
+      } = {
+        type: bill ? "Bill" : vendorCredit ? "VendorCredit" : "Purchase",
+        id: posted!.Id,
+      };
+
+      // Step 6: Attach files (collect all unique files from all rows); an
+      // updated bill keeps the files it already has
+      const allFileNames = this.groupFileNames(rows);
+      const attachedFileNames =
+        billToUpdate && allFileNames.size > 0
+          ? await this.qboService.findAttachmentFileNames(
+              "Bill",
+              billToUpdate.Id!
+            )
+          : new Set<string>();
+      const alreadyAttached = Array.from(allFileNames).filter((f) =>
+        attachedFileNames.has(f)
+      );
+      const attachmentResults = await this.attachFiles(
+        new Set(
+          Array.from(allFileNames).filter((f) => !attachedFileNames.has(f))
+        ),
+        attachments,
+        attachTo,
+        created
+      );
+
       // Step 7: Create Invoice from billable expenses (using first row's invoice date)
       const invoiceDate = parseDate(
         firstRow.InvoiceDate,
         this.settings.strictDateParsing
       )!;
 
-      // Create invoice for the first sub-customer (or we could create multiple invoices)
-      const invoice = await this.qboService.createInvoiceFromBillableExpenses(
-        allSubCustomerIds[0],
-        invoiceDate.toISOString().split("T")[0],
-        firstRow.PONumber,
-        firstRow.PointOfContact,
-        firstRow.Currency || this.settings.defaultCurrency
+      // One invoice per project, so lines for every project get billed;
+      // credited lines and purchases are never invoiced. An updated bill
+      // is only invoiced for projects it has new billable lines for.
+      const invoiceIds: string[] = [];
+      const billableProjects = billDiff
+        ? (await this.newlyBillableProjects(bill!.Id, billDiff)).map(
+            (project) => project.value
+          )
+        : null;
+      const billedSubCustomerIds = allSubCustomerIds.filter(
+        (id, i) =>
+          !this.isCredit(rows[i]) &&
+          !purchaseSource &&
+          (!billableProjects || billableProjects.includes(id))
       );
+      for (const subCustomerId of new Set(billedSubCustomerIds)) {
+        const projectRow = rows[allSubCustomerIds.indexOf(subCustomerId)];
+        const invoice = await this.invoiceBillableExpenses(
+          subCustomerId,
+          invoiceDate.toISOString().split("T")[0],
+          firstRow,
+          projectRow.ProjectName,
+          billDiff !== null
+        );
+        if (!invoice) continue;
+        created.push({ type: "Invoice", id: invoice.Id });
+        invoiceIds.push(invoice.Id);
+        await this.ledger.record(this.realmId, idempotencyKey, {
+          invoiceIds: [invoice.Id],
+        });
 
-      // Step 8: Optionally attach files to Invoice
-      if (this.settings.alsoAttachToInvoice) {
-        for (const fileName of allFileNames) {
-          const file = attachments.get(fileName);
-          if (file) {
-            try {
-              await this.qboService.uploadAttachment(
-                file,
-                "Invoice",
-                invoice.Id
-              );
-            } catch (error) {
-              console.error(`Failed to attach ${fileName} to invoice:`, error);
+        // Step 8: Optionally attach files to Invoice
+        if (this.settings.alsoAttachToInvoice) {
+          for (const fileName of allFileNames) {
+            const file = attachments.get(fileName);
+            if (file) {
+              try {
+                const attachable = await this.qboService.uploadAttachment(
+                  file,
+                  "Invoice",
+                  invoice.Id
+                );
+                created.push({ type: "Attachable", id: attachable.Id! });
+              } catch (error) {
+                if (this.settings.atomicGroups) throw error;
+                console.error(
+                  `Failed to attach ${fileName} to invoice ${invoice.Id}:`,
+                  error
+                );
+              }
             }
           }
         }
       }
 
       // Mark as processed
-      this.processedKeys.add(idempotencyKey);
+      await this.ledger.record(this.realmId, idempotencyKey, {
+        attachableIds: attachmentResults
+          .filter((a) => a.attachableId)
+          .map((a) => a.attachableId!),
+      });
 
       return {
         status: "success",
         customerId: customer.Id,
         subCustomerId: allSubCustomerIds[0],
         vendorId: vendor.Id,
-        billId: bill.Id,
-        invoiceId: invoice.Id,
+        billId: bill?.Id,
+        vendorCreditId: vendorCredit?.Id,
+        billPaymentId: billPayment?.Id,
+        purchaseId: purchase?.Id,
+        purchaseCreditId: purchaseCredit?.Id,
+        invoiceIds,
         attachmentResults,
         idempotencyKey,
-        message: `Bill ${billNumber} created with ${billLines.length} line items`,
+        message: [
+          ...(bill && billDiff
+            ? [
+                `Bill ${billNumber} updated (${this.summarizeBillDiff(
+                  billDiff
+                )})`,
+              ]
+            : []),
+          ...(bill && !billDiff
+            ? [`Bill ${billNumber} created with ${billLines.length} line items`]
+            : []),
+          ...(alreadyAttached.length > 0
+            ? [
+                `${alreadyAttached.length} file(s) were already attached to the bill`,
+              ]
+            : []),
+          ...(vendorCredit
+            ? [
+                `Vendor credit ${billNumber} created with ${creditLines.length} line items`,
+              ]
+            : []),
+          ...(billPayment
+            ? [
+                `Payment of ${billPayment.TotalAmt} recorded${
+                  billPayment.TotalAmt < bill!.TotalAmt! ? " (partial)" : ""
+                }`,
+              ]
+            : []),
+          ...(purchase
+            ? [
+                `Purchase ${billNumber} created with ${billLines.length} line items`,
+              ]
+            : []),
+          ...(purchaseCredit
+            ? [
+                `Credit card credit ${billNumber} created with ${creditLines.length} line items`,
+              ]
+            : []),
+          ...(purchaseSource ? [] : [`${invoiceIds.length} invoice(s) created`]),
+          ...matchNotes,
+        ].join(". "),
       };
     } catch (error: any) {
       console.error(`Error processing bill ${billNumber}:`, error);
+      return this.failGroup(`bill_${billNumber}`, error, created);
+    }
+  }
 
-      // Extract meaningful error message
-      let errorMessage = "Unknown error occurred";
-      if (error.message) {
-        errorMessage = error.message;
-      } else if (typeof error === "string") {
-        errorMessage = error;
-      } else if (error.fault?.error?.[0]) {
-        errorMessage =
-          error.fault.error[0].message || error.fault.error[0].detail;
-      } else if (error.toString && error.toString() !== "[object Object]") {
-        errorMessage = error.toString();
-      } else {
-        errorMessage = JSON.stringify(error);
+  // Journal entry mode: each group is one entry, posted only when its debits
+  // and credits balance
+  private async processJournalGroup(
+    entryNumber: string,
+    rows: CSVRow[],
+    indices: number[],
+    attachments: Map<string, UploadedFile>
+  ): Promise<Omit<ProcessingResult, "rowIndex">> {
+    // Everything created for this group, in creation order, for rollback
+    const created: CreatedEntity[] = [];
+    const idempotencyKey = `journal_${entryNumber}`;
+
+    try {
+      const firstRow = rows[0];
+
+      // Validate all rows in the group
+      for (let i = 0; i < rows.length; i++) {
+        const errors = this.validateRow(rows[i], indices[i]);
+        if (errors.length > 0) {
+          return {
+            status: "error",
+            error: `Row ${indices[i] + 1}: ${errors
+              .map((e) => `${e.field}: ${e.message}`)
+              .join("; ")}`,
+          };
+        }
+      }
+      const imbalance = this.journalImbalance(entryNumber, rows);
+      if (imbalance) {
+        return { status: "error", error: imbalance };
       }
 
+      const existing = await this.ledger.get(this.realmId, idempotencyKey);
+      if (existing?.journalEntryId) {
+        return {
+          status: "skipped",
+          journalEntryId: existing.journalEntryId,
+          message: `Journal entry ${entryNumber} already imported (${this.describePosted(
+            existing
+          )})`,
+          idempotencyKey,
+        };
+      }
+
+      // Resolve every line's account before anything is created
+      const accounts: QBOAccount[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        try {
+          accounts.push(await this.resolveJournalAccount(rows[i]));
+        } catch (error) {
+          return {
+            status: "error",
+            error: `Row ${indices[i] + 1}: AccountName: ${(error as Error).message}`,
+          };
+        }
+      }
+
+      const currencyIssues = await this.currencyIssues(rows);
+      if (currencyIssues.length > 0) {
+        return { status: "error", error: currencyIssues.join("; ") };
+      }
+      const currency = this.rowCurrency(firstRow);
+      const exchangeRate = parseExchangeRate(firstRow.ExchangeRate);
+      const newEntityCurrency = await this.newEntityCurrency(currency);
+
+      // Pre-flight: QBO accepts duplicate entry numbers, so check ourselves
+      const duplicate = await this.qboService.findJournalEntryByDocNumber(
+        entryNumber
+      );
+      if (duplicate) {
+        return {
+          status: "duplicate",
+          journalEntryId: duplicate.Id,
+          idempotencyKey,
+          message: `Journal entry ${entryNumber} already exists in QuickBooks (Journal Entry ID ${duplicate.Id})`,
+        };
+      }
+
+      // Step 1: Resolve each line's customer or vendor, class and location
+      const matchNotes: string[] = [];
+      const lines: QBOJournalEntryLine[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const { postingType, amount } = this.journalPosting(row);
+        const detail: QBOJournalEntryLine["JournalEntryLineDetail"] = {
+          PostingType: postingType,
+          AccountRef: { value: accounts[i].Id },
+        };
+
+        const party = this.journalParty(row, accounts[i]);
+        if (party) {
+          const name = party === "Customer" ? row.CustomerName : row.VendorName;
+          const { entity, candidates } = await this.findOrCreateParty(
+            party,
+            name,
+            created,
+            matchNotes,
+            newEntityCurrency
+          );
+          if (!entity) {
+            return {
+              status: "needs_review",
+              error: `${party} "${name}" not found. Enable auto-create or create manually.`,
+              candidates,
+              unresolved: { entityType: party, name },
+            };
+          }
+          const currencyIssue = await this.entityCurrencyIssue(
+            party,
+            entity,
+            name,
+            currency
+          );
+          if (currencyIssue) throw new Error(currencyIssue);
+
+          // A project line posts to the project, not its customer
+          const project =
+            party === "Customer" && row.ProjectName?.trim()
+              ? await this.findOrCreateProject(
+                  row.ProjectName,
+                  entity.Id!,
+                  created
+                )
+              : null;
+          detail.Entity = {
+            Type: party,
+            EntityRef: { value: (project ?? entity).Id! },
+          };
+        }
+
+        const category = row.Category?.trim();
+        const classId = category
+          ? await this.findOrCreateClass(category, created)
+          : undefined;
+        if (classId) {
+          detail.ClassRef = { value: classId };
+        }
+
+        const location = row.Location?.trim();
+        const departmentId = location
+          ? await this.findOrCreateDepartment(location, created)
+          : undefined;
+        if (departmentId) {
+          detail.DepartmentRef = { value: departmentId };
+        }
+
+        lines.push({
+          DetailType: "JournalEntryLineDetail",
+          Amount: amount,
+          Description: row.BillLineDescription || undefined,
+          JournalEntryLineDetail: detail,
+        });
+      }
+
+      // Step 2: Create the Journal Entry
+      const entryDate = parseDate(
+        firstRow.BillDate,
+        this.settings.strictDateParsing
+      )!;
+      const journalEntry = await this.qboService.createJournalEntry({
+        DocNumber: entryNumber,
+        TxnDate: entryDate.toISOString().split("T")[0],
+        Line: lines,
+        PrivateNote: firstRow.Memo?.trim() || this.provenance(indices),
+        CurrencyRef: firstRow.Currency
+          ? { value: firstRow.Currency }
+          : undefined,
+        ExchangeRate: exchangeRate ?? undefined,
+      });
+      created.push({ type: "JournalEntry", id: journalEntry.Id });
+      await this.ledger.record(this.realmId, idempotencyKey, {
+        journalEntryId: journalEntry.Id,
+        rowIndices: indices,
+      });
+
+      // Step 3: Attach files
+      const attachmentResults = await this.attachFiles(
+        this.groupFileNames(rows),
+        attachments,
+        { type: "JournalEntry", id: journalEntry.Id },
+        created
+      );
+      await this.ledger.record(this.realmId, idempotencyKey, {
+        attachableIds: attachmentResults
+          .filter((a) => a.attachableId)
+          .map((a) => a.attachableId!),
+      });
+
+      return {
+        status: "success",
+        journalEntryId: journalEntry.Id,
+        attachmentResults,
+        idempotencyKey,
+        message: [
+          `Journal entry ${entryNumber} created with ${lines.length} lines`,
+          ...matchNotes,
+        ].join(". "),
+      };
+    } catch (error) {
+      console.error(`Error processing journal entry ${entryNumber}:`, error);
+      return this.failGroup(idempotencyKey, error, created);
+    }
+  }
+
+  private async dryRunJournalEntry(
+    entryNumber: string,
+    rows: CSVRow[],
+    indices: number[]
+  ): Promise<DryRunResult[]> {
+    const actions: string[] = [];
+    const warnings: string[] = [];
+    const errors: string[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      errors.push(
+        ...this.validateRow(rows[i], indices[i]).map(
+          (e) => `Row ${indices[i] + 1}: ${e.field}: ${e.message}`
+        )
+      );
+    }
+    if (errors.length === 0) {
+      const imbalance = this.journalImbalance(entryNumber, rows);
+      if (imbalance) errors.push(imbalance);
+    }
+
+    const accounts: QBOAccount[] = [];
+    if (errors.length === 0) {
+      for (let i = 0; i < rows.length; i++) {
+        try {
+          accounts.push(await this.resolveJournalAccount(rows[i]));
+        } catch (error) {
+          errors.push(
+            `Row ${indices[i] + 1}: AccountName: ${(error as Error).message}`
+          );
+        }
+      }
+    }
+
+    const currency = this.rowCurrency(rows[0]);
+    if (errors.length === 0) {
+      errors.push(...(await this.currencyIssues(rows)));
+    }
+    if (errors.length === 0) {
+      for (let i = 0; i < rows.length; i++) {
+        const party = this.journalParty(rows[i], accounts[i]);
+        if (!party) continue;
+        const name =
+          party === "Customer" ? rows[i].CustomerName : rows[i].VendorName;
+        const entity = await this.findExistingEntity(party, name);
+        const issue = entity
+          ? await this.entityCurrencyIssue(party, entity, name, currency)
+          : null;
+        if (issue && !errors.includes(issue)) errors.push(issue);
+      }
+    }
+
+    if (errors.length > 0) {
+      return indices.map((rowIndex) => ({
+        rowIndex,
+        actions: [],
+        warnings: [],
+        errors,
+      }));
+    }
+
+    const existing = await this.ledger.get(
+      this.realmId,
+      `journal_${entryNumber}`
+    );
+    if (existing?.journalEntryId) {
+      warnings.push(
+        `Journal entry #${entryNumber} was already imported (${this.describePosted(
+          existing
+        )}) and will be skipped`
+      );
+    } else {
+      const duplicate = await this.qboService.findJournalEntryByDocNumber(
+        entryNumber
+      );
+      if (duplicate) {
+        warnings.push(
+          `Journal entry #${entryNumber} already exists in QuickBooks (Journal Entry ID ${duplicate.Id}) and will be reported as a duplicate`
+        );
+      }
+    }
+
+    const entryDate = parseDate(
+      rows[0].BillDate,
+      this.settings.strictDateParsing
+    )!;
+    actions.push(
+      `Create Journal Entry #${entryNumber} dated ${
+        entryDate.toISOString().split("T")[0]
+      } with ${rows.length} line(s)`
+    );
+    await this.describeCurrency(rows[0], actions, warnings);
+    actions.push(
+      `Private note: "${rows[0].Memo?.trim() || this.provenance(indices)}"`
+    );
+
+    let total = 0;
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const account = accounts[i];
+      const { postingType, amount } = this.journalPosting(row);
+      if (postingType === "Debit") total += amount;
+      actions.push(
+        `  Line ${i + 1}: ${postingType} ${amount.toFixed(
+          2
+        )} ${currency} to "${account.FullyQualifiedName ?? account.Name}"${
+          row.BillLineDescription?.trim() ? ` - ${row.BillLineDescription}` : ""
+        }`
+      );
+
+      const party = this.journalParty(row, account);
+      if (party === "Vendor") {
+        actions.push(`    Vendor: "${row.VendorName}"`);
+      } else if (party === "Customer" && row.ProjectName?.trim()) {
+        actions.push(
+          `    Project: "${row.ProjectName}" (customer "${row.CustomerName}")`
+        );
+      } else if (party === "Customer") {
+        actions.push(`    Customer: "${row.CustomerName}"`);
+      }
+      if (row.Category?.trim()) {
+        actions.push(`    Category/Class: "${row.Category}"`);
+      }
+      if (row.Location?.trim()) {
+        actions.push(`    Department/Location: "${row.Location}"`);
+      }
+    }
+    actions.push(`Debits and credits both total ${total.toFixed(2)}`);
+
+    const fileNames = this.groupFileNames(rows);
+    if (fileNames.size > 0) {
+      actions.push(
+        `Attach ${fileNames.size} file(s) to Journal Entry: ${Array.from(
+          fileNames
+        ).join(", ")}`
+      );
+    }
+
+    return indices.map((rowIndex) => ({
+      rowIndex,
+      actions,
+      warnings,
+      errors: [],
+    }));
+  }
+
+  private journalPosting(row: CSVRow): {
+    postingType: PostingType;
+    amount: number;
+  } {
+    return row.Debit?.trim()
+      ? { postingType: "Debit", amount: validateAmount(row.Debit)! }
+      : { postingType: "Credit", amount: validateAmount(row.Credit)! };
+  }
+
+  // Null when the group's debits equal its credits, to the cent
+  private journalImbalance(entryNumber: string, rows: CSVRow[]): string | null {
+    let debits = 0;
+    let credits = 0;
+    for (const row of rows) {
+      const { postingType, amount } = this.journalPosting(row);
+      if (postingType === "Debit") debits += amount;
+      else credits += amount;
+    }
+
+    const difference = Math.round((debits - credits) * 100) / 100;
+    if (difference === 0) return null;
+    return `Entry #${entryNumber} doesn't balance: debits ${debits.toFixed(
+      2
+    )}, credits ${credits.toFixed(2)} (${
+      difference > 0 ? "debits" : "credits"
+    } exceed ${difference > 0 ? "credits" : "debits"} by ${Math.abs(
+      difference
+    ).toFixed(2)})`;
+  }
+
+  // Journal lines can post to any active account, but QBO wants a vendor on
+  // payables lines and a customer on receivables lines
+  private async resolveJournalAccount(row: CSVRow): Promise<QBOAccount> {
+    const name = this.mappedAccountName(row)!;
+    const account = await this.qboService.findAccountByName(name);
+    if (!account) {
+      throw new Error(`Account "${name}" not found in the chart of accounts`);
+    }
+    if (account.Active === false) {
+      throw new Error(`Account "${name}" is inactive`);
+    }
+    if (account.AccountType === "Accounts Payable" && !row.VendorName?.trim()) {
+      throw new Error(
+        `Account "${name}" is an accounts payable account, so the line needs a vendor`
+      );
+    }
+    if (
+      account.AccountType === "Accounts Receivable" &&
+      !row.CustomerName?.trim()
+    ) {
+      throw new Error(
+        `Account "${name}" is an accounts receivable account, so the line needs a customer`
+      );
+    }
+    return account;
+  }
+
+  // Payables lines name their vendor; otherwise a customer (or their
+  // project) is preferred over a vendor
+  private journalParty(
+    row: CSVRow,
+    account: QBOAccount
+  ): "Customer" | "Vendor" | null {
+    if (account.AccountType === "Accounts Payable") return "Vendor";
+    if (row.CustomerName?.trim()) return "Customer";
+    if (row.VendorName?.trim()) return "Vendor";
+    return null;
+  }
+
+  private async describeCurrency(
+    row: CSVRow,
+    actions: string[],
+    warnings: string[]
+  ) {
+    const currency = this.rowCurrency(row);
+    const exchangeRate = parseExchangeRate(row.ExchangeRate);
+    const { homeCurrency } = await this.qboService.getCurrencyPrefs();
+    if (currency === homeCurrency) return;
+
+    if (exchangeRate) {
+      actions.push(
+        `Currency: ${currency} at 1 ${currency} = ${exchangeRate} ${homeCurrency}`
+      );
+    } else {
+      warnings.push(
+        `No exchange rate given for ${currency}; QuickBooks will use its own rate for the transaction date`
+      );
+    }
+  }
+
+  // A group row as a bill line; credits carry the amount as a positive number
+  private buildBillLine(row: CSVRow, refs: BillLineRefs): QBOBillLine {
+    const detail: QBOExpenseLineDetail = {
+      CustomerRef: refs.customer,
+      BillableStatus: "Billable",
+    };
+
+    if (refs.taxCode) {
+      detail.TaxCodeRef = refs.taxCode;
+    }
+
+    if (refs.classRef) {
+      detail.ClassRef = refs.classRef;
+    }
+
+    const amount = Math.abs(validateAmount(row.BillLineAmount, true)!);
+    return refs.item
+      ? {
+          DetailType: "ItemBasedExpenseLineDetail",
+          Amount: amount,
+          Description: row.BillLineDescription,
+          ItemBasedExpenseLineDetail: {
+            ...detail,
+            ItemRef: refs.item,
+            Qty: Number(row.Quantity),
+            UnitPrice: validateAmount(row.UnitCost)!,
+          },
+        }
+      : {
+          DetailType: "AccountBasedExpenseLineDetail",
+          Amount: amount,
+          Description: row.BillLineDescription,
+          AccountBasedExpenseLineDetail: {
+            ...detail,
+            AccountRef: refs.account!,
+          },
+        };
+  }
+
+  // Updates cover a bill's own header and lines, not credits or payments
+  private billUpdateIssue(
+    existing: QBOBill,
+    rows: CSVRow[],
+    currency: string
+  ): string | null {
+    const bill = `Bill #${existing.DocNumber} (Bill ID ${existing.Id})`;
+    if (rows.some((row) => this.isCredit(row))) {
+      return `${bill} exists in QuickBooks; negative lines can't be applied while updating it`;
+    }
+    if (this.hasPayment(rows[0])) {
+      return `${bill} exists in QuickBooks; a payment can't be recorded while updating it`;
+    }
+    const billCurrency = existing.CurrencyRef?.value;
+    if (billCurrency && billCurrency !== currency) {
+      return `${bill} is in ${billCurrency}; an update can't change it to ${currency}`;
+    }
+    return null;
+  }
+
+  // The header fields an update may change. Blank columns leave the bill's
+  // value alone, and the private note only changes when a memo is given.
+  private billUpdateFields(
+    row: CSVRow,
+    departmentRef: Ref | undefined,
+    billDetails: BillDetails,
+    taxCalculation: GlobalTaxCalculation | undefined
+  ): Partial<QBOBill> {
+    return {
+      TxnDate: parseDate(row.BillDate, this.settings.strictDateParsing)!
+        .toISOString()
+        .split("T")[0],
+      DueDate: billDetails.DueDate,
+      SalesTermRef: billDetails.SalesTermRef,
+      APAccountRef: billDetails.APAccountRef,
+      PrivateNote: row.Memo?.trim() ? billDetails.PrivateNote : undefined,
+      DepartmentRef: departmentRef,
+      ExchangeRate: parseExchangeRate(row.ExchangeRate) ?? undefined,
+      GlobalTaxCalculation: taxCalculation,
+    };
+  }
+
+  // Dry-run counterparts of the header and lines processing would send,
+  // resolved by lookup only; names that would be created have no ID yet
+  private async planBillHeader(
+    row: CSVRow,
+    billDetails: BillDetails,
+    rows: CSVRow[]
+  ): Promise<Partial<QBOBill>> {
+    const location = row.Location?.trim();
+    const departmentId = location
+      ? (await this.findAlias("Department", location))?.entityId ??
+        (await this.qboService.findDepartmentByName(location))?.Id
+      : undefined;
+    return this.billUpdateFields(
+      row,
+      location ? { value: departmentId ?? "", name: location } : undefined,
+      billDetails,
+      this.taxCalculation(rows)
+    );
+  }
+
+  private async planBillLines(
+    rows: CSVRow[],
+    accounts: (QBOAccount | null)[],
+    itemIds: (string | undefined)[],
+    taxCodes: (QBOTaxCode | null)[]
+  ): Promise<QBOBillLine[]> {
+    const lines: QBOBillLine[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      if (this.isCredit(row)) continue;
+
+      const projectId =
+        (await this.findAlias("Project", row.ProjectName))?.entityId ??
+        (await this.qboService.findCustomerByName(row.ProjectName))?.Id;
+      const category = row.Category?.trim();
+      const classId = category
+        ? (await this.findAlias("Class", category))?.entityId ??
+          (await this.qboService.findClassByName(category))?.Id
+        : undefined;
+      const account = accounts[i];
+      const taxCode = taxCodes[i];
+
+      lines.push(
+        this.buildBillLine(row, {
+          customer: { value: projectId ?? "", name: row.ProjectName },
+          account: account
+            ? {
+                value: account.Id,
+                name: account.FullyQualifiedName ?? account.Name,
+              }
+            : undefined,
+          item: this.isItemLine(row)
+            ? { value: itemIds[i] ?? "", name: row.Item.trim() }
+            : undefined,
+          taxCode: taxCode
+            ? { value: taxCode.Id, name: taxCode.Name }
+            : undefined,
+          classRef: category
+            ? { value: classId ?? "", name: category }
+            : undefined,
+        })
+      );
+    }
+    return lines;
+  }
+
+  // Compare an existing bill with what the group would post. CSV lines are
+  // paired with identical existing lines first, then with the remaining
+  // lines in order; existing lines left over are removed.
+  private diffBill(
+    existing: QBOBill,
+    desired: Partial<QBOBill>,
+    lines: QBOBillLine[]
+  ): BillDiff {
+    const header: Partial<QBOBill> = {};
+    const headerChanges: string[] = [];
+    const headerFields: [keyof QBOBill, string][] = [
+      ["TxnDate", "Bill date"],
+      ["DueDate", "Due date"],
+      ["SalesTermRef", "Terms"],
+      ["APAccountRef", "A/P account"],
+      ["DepartmentRef", "Department/Location"],
+      ["PrivateNote", "Private note"],
+      ["ExchangeRate", "Exchange rate"],
+      ["GlobalTaxCalculation", "Tax calculation"],
+    ];
+    for (const [field, label] of headerFields) {
+      if (desired[field] === undefined) continue;
+      const from = this.comparable(existing[field]);
+      const to = this.comparable(desired[field]);
+      if (from.key !== to.key) {
+        Object.assign(header, { [field]: desired[field] });
+        headerChanges.push(`${label}: ${from.label} → ${to.label}`);
+      }
+    }
+
+    const existingLines = (existing.Line || []).filter(
+      (line) =>
+        line.DetailType === "AccountBasedExpenseLineDetail" ||
+        line.DetailType === "ItemBasedExpenseLineDetail"
+    );
+    const unmatched = existingLines.map((_, j) => j);
+    const pairs = lines.map((line) => {
+      const j = unmatched.find(
+        (j) => this.lineChanges(existingLines[j], line).length === 0
+      );
+      if (j !== undefined) unmatched.splice(unmatched.indexOf(j), 1);
+      return j;
+    });
+
+    const diffs: BillLineDiff[] = lines.map((line, i) => {
+      const j = pairs[i] ?? unmatched.shift();
+      if (j === undefined) {
+        return { kind: "added", position: i + 1, line, changes: [] };
+      }
+      const changes = this.lineChanges(existingLines[j], line);
+      return {
+        kind: changes.length > 0 ? "changed" : "unchanged",
+        position: i + 1,
+        existing: existingLines[j],
+        line,
+        changes,
+      };
+    });
+    for (const j of unmatched) {
+      diffs.push({
+        kind: "removed",
+        position: j + 1,
+        existing: existingLines[j],
+        changes: [],
+      });
+    }
+
+    return { header, headerChanges, lines: diffs };
+  }
+
+  private lineChanges(existing: QBOBillLine, line: QBOBillLine): string[] {
+    const fields = (l: QBOBillLine): [string, unknown][] => {
+      const account = l.AccountBasedExpenseLineDetail;
+      const item = l.ItemBasedExpenseLineDetail;
+      const detail = account ?? item;
+      return [
+        ["Amount", Math.round(l.Amount * 100) / 100],
+        ["Description", l.Description],
+        ["Account", account?.AccountRef],
+        ["Item", item?.ItemRef],
+        ["Quantity", item?.Qty],
+        ["Unit cost", item?.UnitPrice],
+        ["Project", detail?.CustomerRef],
+        ["Class", detail?.ClassRef],
+        ["Tax code", detail?.TaxCodeRef],
+      ];
+    };
+
+    const after = fields(line);
+    return fields(existing).flatMap(([label, value], i) => {
+      // QBO fills in a tax code when none is sent; a blank one isn't a change
+      if (label === "Tax code" && after[i][1] === undefined) return [];
+      const from = this.comparable(value);
+      const to = this.comparable(after[i][1]);
+      return from.key === to.key ? [] : [`${label} ${from.label} → ${to.label}`];
+    });
+  }
+
+  // A value reduced to a key for comparison and a label for the preview.
+  // References compare by ID, or by name when they'd be created.
+  private comparable(value: unknown): { key: string; label: string } {
+    if (value === undefined || value === null || value === "") {
+      return { key: "", label: "none" };
+    }
+    if (typeof value === "object") {
+      const ref = value as Ref;
+      return {
+        key: ref.value || `new:${ref.name}`,
+        label: ref.name
+          ? `"${ref.name}"${ref.value ? "" : " (new)"}`
+          : `ID ${ref.value}`,
+      };
+    }
+    if (typeof value === "number") {
+      return { key: String(value), label: String(value) };
+    }
+    return { key: String(value), label: `"${value}"` };
+  }
+
+  private hasBillChanges(diff: BillDiff): boolean {
+    return (
+      diff.headerChanges.length > 0 ||
+      diff.lines.some((line) => line.kind !== "unchanged")
+    );
+  }
+
+  // Lines already on an invoice must stay as they are
+  private billedLineIssue(existing: QBOBill, diff: BillDiff): string | null {
+    const billed = diff.lines.filter(
+      (line) =>
+        (line.kind === "changed" || line.kind === "removed") &&
+        (
+          line.existing!.AccountBasedExpenseLineDetail ??
+          line.existing!.ItemBasedExpenseLineDetail
+        )?.BillableStatus === "HasBeenBilled"
+    );
+    if (billed.length === 0) return null;
+    return `Bill #${existing.DocNumber} (Bill ID ${
+      existing.Id
+    }) can't be updated: ${billed
+      .map((line) => `line ${line.position} would be ${line.kind}`)
+      .join(", ")} but has already been invoiced`;
+  }
+
+  // Projects an update gives new billable lines: lines it adds, or changes
+  // that aren't on an invoice yet
+  private async newlyBillableProjects(
+    billId: string,
+    diff: BillDiff
+  ): Promise<Ref[]> {
+    const invoiced = await invoicedLineStore.list(this.realmId);
+    return diff.lines.flatMap(({ kind, line, existing }) => {
+      if (kind !== "added" && kind !== "changed") return [];
+      if (existing?.Id && invoiced.has(`${billId}:${existing.Id}`)) return [];
+      const detail =
+        line!.AccountBasedExpenseLineDetail ?? line!.ItemBasedExpenseLineDetail;
+      return detail?.BillableStatus === "Billable" && detail.CustomerRef
+        ? [detail.CustomerRef]
+        : [];
+    });
+  }
+
+  private summarizeBillDiff(diff: BillDiff): string {
+    const count = (kind: BillLineDiff["kind"]) =>
+      diff.lines.filter((line) => line.kind === kind).length;
+    return [
+      count("changed") && `${count("changed")} line(s) changed`,
+      count("added") && `${count("added")} added`,
+      count("removed") && `${count("removed")} removed`,
+      diff.headerChanges.length &&
+        `${diff.headerChanges.length} header field(s) changed`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  private describeBillUpdate(existing: QBOBill, diff: BillDiff): string[] {
+    const describeLine = (line: QBOBillLine) =>
+      `${line.Amount.toFixed(2)} "${line.Description ?? ""}"`;
+
+    return [
+      `Update Bill #${existing.DocNumber} (Bill ID ${existing.Id}, SyncToken ${
+        existing.SyncToken
+      }): ${this.summarizeBillDiff(diff)}`,
+      ...diff.headerChanges.map((change) => `  ${change}`),
+      ...diff.lines.map((line) => {
+        const prefix = `  Bill line ${line.position}`;
+        switch (line.kind) {
+          case "unchanged":
+            return `${prefix}: unchanged`;
+          case "changed":
+            return `${prefix}: ${line.changes.join("; ")}`;
+          case "added":
+            return `${prefix}: added, ${describeLine(line.line!)}`;
+          case "removed":
+            return `${prefix}: removed, ${describeLine(line.existing!)}`;
+        }
+      }),
+    ];
+  }
+
+  // The sparse update's Line array. Unchanged lines are sent back as QBO
+  // returned them so their billing state is kept.
+  private updatedLines(diff: BillDiff): QBOBillLine[] {
+    return diff.lines
+      .filter((line) => line.kind !== "removed")
+      .map((line) =>
+        line.kind === "unchanged"
+          ? line.existing!
+          : line.kind === "changed"
+          ? { ...line.line!, Id: line.existing!.Id }
+          : line.line!
+      );
+  }
+
+  // Apply the group to an existing bill as a sparse update, or return null
+  // when nothing differs. A stale SyncToken means the bill was saved by
+  // someone else meanwhile, so it's fetched and diffed again.
+  private async updateExistingBill(
+    existing: QBOBill,
+    desired: Partial<QBOBill>,
+    lines: QBOBillLine[]
+  ): Promise<{ bill: Saved<QBOBill>; diff: BillDiff } | null> {
+    let current = existing;
+    for (let attempt = 1; ; attempt++) {
+      const diff = this.diffBill(current, desired, lines);
+      if (!this.hasBillChanges(diff)) return null;
+      const issue = this.billedLineIssue(current, diff);
+      if (issue) throw new Error(issue);
+
+      try {
+        const bill = await this.qboService.updateBill({
+          Id: current.Id!,
+          SyncToken: current.SyncToken!,
+          sparse: true,
+          VendorRef: current.VendorRef,
+          ...diff.header,
+          ...(diff.lines.some((line) => line.kind !== "unchanged") && {
+            Line: this.updatedLines(diff),
+          }),
+        });
+        return { bill, diff };
+      } catch (error) {
+        if (!isStaleObjectError(error)) throw error;
+        if (attempt >= MAX_STALE_RETRIES) {
+          throw new Error(
+            `Bill ${current.Id} kept changing in QuickBooks while it was being updated; try again`
+          );
+        }
+        console.warn(
+          `Bill ${current.Id} was changed in QuickBooks during the update; retrying against the latest version`
+        );
+        current = await this.qboService.getBill(current.Id!);
+      }
+    }
+  }
+
+  private recordCreated(created: CreatedEntity[], entity: CreatedEntity) {
+    created.push(entity);
+    this.entityCreators.set(`${entity.type}:${entity.id}`, created);
+  }
+
+  // Called under the entity's lock, so a rollback can't miss the use
+  private useEntity(
+    type: CreatedEntity["type"],
+    id: string,
+    created: CreatedEntity[]
+  ) {
+    const key = `${type}:${id}`;
+    const creator = this.entityCreators.get(key);
+    if (creator && creator !== created) {
+      this.sharedEntities.add(key);
+    }
+  }
+
+  // Alias first, then the exact name, then a confident fuzzy match; anything
+  // else is created when auto-create is on. Otherwise the entity is null and
+  // the ranked candidates are returned for review.
+  private async findOrCreateParty(
+    type: "Customer" | "Vendor",
+    name: string,
+    created: CreatedEntity[],
+    matchNotes: string[],
+    currency?: string
+  ): Promise<{
+    entity: QBOCustomer | QBOVendor | null;
+    candidates: MatchCandidate[];
+  }> {
+    const find = (displayName: string) =>
+      type === "Customer"
+        ? this.qboService.findCustomerByName(displayName)
+        : this.qboService.findVendorByName(displayName);
+
+    let candidates: MatchCandidate[] = [];
+    const lockKey = `${type}:${name}`;
+    const entity = await this.entityLocks.run(lockKey, async () => {
+      const alias = await this.findAlias(type, name);
+      if (alias) {
+        this.useEntity(type, alias.entityId, created);
+        return { Id: alias.entityId, DisplayName: name };
+      }
+
+      const found = await find(name);
+      if (found) {
+        this.useEntity(type, found.Id!, created);
+        return found;
+      }
+
+      const match = await this.fuzzyMatch(type, name);
+      if (match.candidate) {
+        matchNotes.push(this.describeMatch(name, match.candidate));
+        const matched = await find(match.candidate.name);
+        if (matched) this.useEntity(type, matched.Id!, created);
+        return matched;
+      }
+      candidates = match.candidates;
+      if (!this.settings.autoCreate) return null;
+
+      const newEntity =
+        type === "Customer"
+          ? await this.qboService.createCustomer(name, undefined, { currency })
+          : await this.qboService.createVendor(name, currency);
+      this.recordCreated(created, {
+        type,
+        id: newEntity.Id!,
+        syncToken: newEntity.SyncToken,
+        lockKey,
+      });
+      return newEntity;
+    });
+    return { entity, candidates };
+  }
+
+  // Projects are sub-customers, created under the customer when missing
+  private async findOrCreateProject(
+    name: string,
+    customerId: string,
+    created: CreatedEntity[]
+  ): Promise<QBOCustomer> {
+    const lockKey = `Customer:${name}`;
+    return this.entityLocks.run(lockKey, async () => {
+      const alias = await this.findAlias("Project", name);
+      if (alias) {
+        this.useEntity("Customer", alias.entityId, created);
+        return { Id: alias.entityId, DisplayName: name };
+      }
+
+      const found = await this.qboService.findCustomerByName(name);
+      if (found) {
+        this.useEntity("Customer", found.Id!, created);
+        return found;
+      }
+
+      const newSubCustomer = await this.qboService.createCustomer(
+        name,
+        customerId
+      );
+      this.recordCreated(created, {
+        type: "Customer",
+        id: newSubCustomer.Id!,
+        syncToken: newSubCustomer.SyncToken,
+        lockKey,
+      });
+      return newSubCustomer;
+    });
+  }
+
+  // Undefined when the department is missing and auto-create is off
+  private async findOrCreateDepartment(
+    location: string,
+    created: CreatedEntity[]
+  ): Promise<string | undefined> {
+    const lockKey = `Department:${location}`;
+    return this.entityLocks.run(lockKey, async () => {
+      const alias = await this.findAlias("Department", location);
+      if (alias) {
+        this.useEntity("Department", alias.entityId, created);
+        return alias.entityId;
+      }
+
+      console.log(`Looking for Location/Department: "${location}"`);
+      const department = await this.qboService.findDepartmentByName(location);
+      if (department) {
+        console.log(`Found Department ID: ${department.Id}`);
+        this.useEntity("Department", department.Id, created);
+        return department.Id;
+      }
+
+      console.log(`Department "${location}" not found in QuickBooks`);
+      if (!this.settings.autoCreate) {
+        console.log(`Auto-create disabled. Department will not be set.`);
+        return undefined;
+      }
+
+      console.log(`Auto-creating Department: "${location}"`);
+      const newDepartment = await this.qboService.createDepartment(location);
+      this.recordCreated(created, {
+        type: "Department",
+        id: newDepartment.Id,
+        syncToken: newDepartment.SyncToken,
+        lockKey,
+      });
+      console.log(`Created Department ID: ${newDepartment.Id}`);
+      return newDepartment.Id;
+    });
+  }
+
+  // Undefined when the class is missing and auto-create is off
+  private async findOrCreateClass(
+    category: string,
+    created: CreatedEntity[]
+  ): Promise<string | undefined> {
+    const lockKey = `Class:${category}`;
+    return this.entityLocks.run(lockKey, async () => {
+      const alias = await this.findAlias("Class", category);
+      if (alias) {
+        this.useEntity("Class", alias.entityId, created);
+        return alias.entityId;
+      }
+
+      console.log(`Looking for Category/Class: "${category}"`);
+      const classObj = await this.qboService.findClassByName(category);
+      if (classObj) {
+        console.log(`Found Class ID: ${classObj.Id}`);
+        this.useEntity("Class", classObj.Id, created);
+        return classObj.Id;
+      }
+
+      console.log(`Class "${category}" not found in QuickBooks`);
+      if (!this.settings.autoCreate) {
+        console.log(`Auto-create disabled. Class will not be set on the line.`);
+        return undefined;
+      }
+
+      console.log(`Auto-creating Class: "${category}"`);
+      const newClass = await this.qboService.createClass(category);
+      this.recordCreated(created, {
+        type: "Class",
+        id: newClass.Id,
+        syncToken: newClass.SyncToken,
+        lockKey,
+      });
+      console.log(`Created Class ID: ${newClass.Id}`);
+      return newClass.Id;
+    });
+  }
+
+  // Unique attachment filenames across a group's rows
+  private groupFileNames(rows: CSVRow[]): Set<string> {
+    const fileNames = new Set<string>();
+    for (const row of rows) {
+      const names =
+        row.AttachmentFiles?.split(";").filter((f) => f.trim()) || [];
+      names.forEach((f) => fileNames.add(f.trim()));
+    }
+    return fileNames;
+  }
+
+  private async attachFiles(
+    fileNames: Set<string>,
+    attachments: Map<string, UploadedFile>,
+    attachTo: {
+      type: "Bill" | "VendorCredit" | "Purchase" | "JournalEntry";
+      id: string;
+    },
+    created: CreatedEntity[]
+  ): Promise<AttachmentResult[]> {
+    const attachmentResults: AttachmentResult[] = [];
+
+    for (const fileName of fileNames) {
+      const file = attachments.get(fileName);
+      if (file) {
+        try {
+          const attachable = await this.qboService.uploadAttachment(
+            file,
+            attachTo.type,
+            attachTo.id
+          );
+          created.push({ type: "Attachable", id: attachable.Id! });
+          attachmentResults.push({
+            filename: fileName,
+            attachableId: attachable.Id,
+            status: "success",
+          });
+        } catch (error) {
+          attachmentResults.push({
+            filename: fileName,
+            status: "error",
+            error: (error as Error).message,
+          });
+        }
+      } else {
+        attachmentResults.push({
+          filename: fileName,
+          status: "error",
+          error: "File not found in uploads",
+        });
+      }
+    }
+
+    // In atomic mode a missing attachment fails the whole group
+    const failedAttachments = attachmentResults.filter(
+      (a) => a.status === "error"
+    );
+    if (this.settings.atomicGroups && failedAttachments.length > 0) {
+      throw new Error(
+        `Failed to attach ${failedAttachments
+          .map((a) => `${a.filename} (${a.error})`)
+          .join(", ")} to ${attachTo.type} ${attachTo.id}`
+      );
+    }
+
+    return attachmentResults;
+  }
+
+  // The error result for a group that failed partway, rolled back first in
+  // atomic mode
+  private async failGroup(
+    idempotencyKey: string,
+    error: unknown,
+    created: CreatedEntity[]
+  ): Promise<Omit<ProcessingResult, "rowIndex">> {
+    // Extract meaningful error message
+    const failure = error as QBOFailure;
+    let errorMessage = "Unknown error occurred";
+    if (failure?.message) {
+      errorMessage = failure.message;
+    } else if (typeof error === "string") {
+      errorMessage = error;
+    } else if (failure?.fault?.error?.[0]) {
+      errorMessage =
+        failure.fault.error[0].message || failure.fault.error[0].detail!;
+    } else if (
+      failure?.toString &&
+      failure.toString() !== "[object Object]"
+    ) {
+      errorMessage = failure.toString();
+    } else {
+      errorMessage = JSON.stringify(error);
+    }
+
+    if (this.settings.atomicGroups && created.length > 0) {
+      const compensations = await this.compensate(idempotencyKey, created);
+      const failed = compensations.filter((c) => c.status === "error");
       return {
         status: "error",
         error: errorMessage,
+        compensations,
+        message: failed.length
+          ? `Rollback incomplete: ${failed.length} of ${compensations.length} entities could not be reverted`
+          : `Rolled back ${compensations
+              .map((c) =>
+                c.action === "kept"
+                  ? `kept ${c.entityType} ${c.entityId} (used by another group)`
+                  : `${c.action} ${c.entityType} ${c.entityId}`
+              )
+              .join(", ")}`,
+      };
+    }
+
+    return {
+      status: "error",
+      error: errorMessage,
+    };
+  }
+
+  // An AccountName on the row wins over the Category mapping
+  private mappedAccountName(row: CSVRow): string | undefined {
+    const accountName = row.AccountName?.trim();
+    if (accountName) return accountName;
+
+    const category = row.Category?.trim() ?? "";
+    return this.settings.accountMappings?.[category]?.trim() || undefined;
+  }
+
+  private async resolveExpenseAccount(row: CSVRow): Promise<QBOAccount> {
+    const name = this.mappedAccountName(row)!;
+    const account = await this.qboService.findAccountByName(name);
+    if (!account) {
+      throw new Error(`Account "${name}" not found in the chart of accounts`);
+    }
+    if (account.Active === false) {
+      throw new Error(`Account "${name}" is inactive`);
+    }
+    if (!EXPENSE_ACCOUNT_TYPES.includes(account.AccountType)) {
+      throw new Error(
+        `Account "${name}" is a ${account.AccountType} account, not an expense account`
+      );
+    }
+    return account;
+  }
+
+  // Without a LineType, a row naming an Item is an item line
+  private isItemLine(row: CSVRow): boolean {
+    const lineType = parseLineType(row.LineType);
+    return lineType ? lineType === "item" : !!row.Item?.trim();
+  }
+
+  // Item lines post through the item's own expense account; a mapped account
+  // is only needed to auto-create the item
+  private async resolveLineAccount(row: CSVRow): Promise<QBOAccount | null> {
+    if (this.isItemLine(row) && !this.mappedAccountName(row)) return null;
+    return this.resolveExpenseAccount(row);
+  }
+
+  // An item line's item, by alias or name. Undefined means it will be
+  // auto-created; throws when that isn't possible.
+  private async findLineItem(
+    row: CSVRow,
+    expenseAccount: Pick<QBOAccount, "Id"> | null
+  ): Promise<string | undefined> {
+    const name = row.Item.trim();
+    const alias = await this.findAlias("Item", name);
+    if (alias) return alias.entityId;
+
+    const item = await this.qboService.findItemByName(name);
+    if (item) {
+      if (item.Active === false) {
+        throw new Error(`Item "${name}" is inactive`);
+      }
+      return item.Id;
+    }
+
+    if (!this.settings.autoCreate) {
+      throw new Error(
+        `Item "${name}" not found. Enable auto-create or create it in QuickBooks.`
+      );
+    }
+    if (!expenseAccount) {
+      throw new Error(
+        `Item "${name}" would be created but no expense account is mapped for it`
+      );
+    }
+    return undefined;
+  }
+
+  // New items are resold through the default invoice item's income account
+  private async newItemIncomeAccount(): Promise<string> {
+    const { defaultItemId } = await this.getInvoiceItems();
+    const items = await this.qboService.getItems();
+    const incomeAccountId = items.find((i) => i.Id === defaultItemId)
+      ?.IncomeAccountRef?.value;
+    if (!incomeAccountId) {
+      throw new Error(
+        `Default invoice item "${this.settings.defaultItemName}" has no income account for new items to use`
+      );
+    }
+    return incomeAccountId;
+  }
+
+  private async resolveTaxCode(row: CSVRow): Promise<QBOTaxCode | null> {
+    const name = row.TaxCode?.trim();
+    if (!name) return null;
+
+    const taxCode = await this.qboService.findTaxCodeByName(name);
+    if (!taxCode) {
+      throw new Error(`Tax code "${name}" not found in QuickBooks`);
+    }
+    if (taxCode.Active === false) {
+      throw new Error(`Tax code "${name}" is inactive`);
+    }
+    return taxCode;
+  }
+
+  // How QBO should treat line amounts; left unset when no line has a tax
+  // code. A transaction has one setting, so every line must agree.
+  private taxCalculation(rows: CSVRow[]): GlobalTaxCalculation | undefined {
+    if (!rows.some((row) => row.TaxCode?.trim())) return undefined;
+
+    const inclusive = new Set(
+      rows.map((row) => parseTaxInclusive(row.TaxInclusive))
+    );
+    if (inclusive.size > 1) {
+      throw new Error(
+        "Lines of one bill must all be tax-inclusive or all tax-exclusive"
+      );
+    }
+    return inclusive.has(true) ? "TaxInclusive" : "TaxExcluded";
+  }
+
+  // Negative lines are refunds or credit memos from the vendor
+  private isCredit(row: CSVRow): boolean {
+    return (validateAmount(row.BillLineAmount, true) ?? 0) < 0;
+  }
+
+  private postsPurchases(): boolean {
+    return this.settings.transactionType === "Purchase";
+  }
+
+  private postsJournalEntries(): boolean {
+    return this.settings.transactionType === "JournalEntry";
+  }
+
+  private updatesBills(): boolean {
+    return (
+      !!this.settings.updateExistingBills &&
+      !this.postsPurchases() &&
+      !this.postsJournalEntries()
+    );
+  }
+
+  // In update mode a bill imported earlier is checked against QBO again
+  // instead of being skipped
+  private skipsPosted(entry: LedgerEntry): boolean {
+    return this.hasPosted(entry) && !(this.updatesBills() && entry.billId);
+  }
+
+  // Whether a group's bill, credit or purchase made it into QBO
+  private hasPosted(entry: LedgerEntry): boolean {
+    return Boolean(
+      entry.billId ||
+        entry.vendorCreditId ||
+        entry.purchaseId ||
+        entry.purchaseCreditId ||
+        entry.journalEntryId
+    );
+  }
+
+  private describePosted(entry: LedgerEntry): string {
+    return [
+      entry.billId && `Bill ID ${entry.billId}`,
+      entry.vendorCreditId && `Vendor Credit ID ${entry.vendorCreditId}`,
+      entry.billPaymentId && `Bill Payment ID ${entry.billPaymentId}`,
+      entry.purchaseId && `Purchase ID ${entry.purchaseId}`,
+      entry.purchaseCreditId &&
+        `Credit Card Credit ID ${entry.purchaseCreditId}`,
+      entry.journalEntryId && `Journal Entry ID ${entry.journalEntryId}`,
+      entry.invoiceIds?.length &&
+        `Invoice ID(s) ${entry.invoiceIds.join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  private hasPayment(row: CSVRow): boolean {
+    return [
+      row.PaymentDate,
+      row.PaymentAccount,
+      row.PaymentMethod,
+      row.PaidAmount,
+    ].some((value) => value?.trim());
+  }
+
+  // The payment section of a group's first row, or null when it's blank
+  private async resolvePayment(row: CSVRow): Promise<PaymentDetails | null> {
+    if (!this.hasPayment(row)) return null;
+
+    return {
+      ...(await this.resolvePaymentSource(row)),
+      date: parseDate(row.PaymentDate, this.settings.strictDateParsing)!
+        .toISOString()
+        .split("T")[0],
+      amount: validateAmount(row.PaidAmount) ?? undefined,
+    };
+  }
+
+  // The row's payment account and method. The method must suit the account:
+  // checks come from bank accounts and card payments from credit card
+  // accounts.
+  private async resolvePaymentSource(row: CSVRow): Promise<PaymentSource> {
+    const name = row.PaymentAccount.trim();
+    const account = await this.qboService.findAccountByName(name);
+    if (!account) {
+      throw new Error(
+        `PaymentAccount: Account "${name}" not found in the chart of accounts`
+      );
+    }
+    if (account.Active === false) {
+      throw new Error(`PaymentAccount: Account "${name}" is inactive`);
+    }
+    const accountPayType: BillPayType | null =
+      account.AccountType === "Bank"
+        ? "Check"
+        : account.AccountType === "Credit Card"
+        ? "CreditCard"
+        : null;
+    if (!accountPayType) {
+      throw new Error(
+        `PaymentAccount: Account "${name}" is a ${account.AccountType} account, not a bank or credit card account`
+      );
+    }
+    const payType = parsePayType(row.PaymentMethod) ?? accountPayType;
+    if (payType !== accountPayType) {
+      throw new Error(
+        `PaymentMethod: ${
+          payType === "Check" ? "Checks" : "Credit card payments"
+        } can't be paid from ${account.AccountType} account "${name}"`
+      );
+    }
+
+    return {
+      accountId: account.Id,
+      accountName: account.FullyQualifiedName ?? account.Name,
+      payType,
+    };
+  }
+
+  // Where a purchase group is paid from. Negative lines become a credit card
+  // credit; a refund into a bank account is a deposit, which isn't imported.
+  private async resolvePurchaseSource(rows: CSVRow[]): Promise<PaymentSource> {
+    const source = await this.resolvePaymentSource(rows[0]);
+    if (source.payType === "Check" && rows.some((row) => this.isCredit(row))) {
+      throw new Error(
+        `BillLineAmount: Negative amounts can only be imported as credit card credits, and "${source.accountName}" is a bank account`
+      );
+    }
+    return source;
+  }
+
+  // A bill header and lines, paid on the spot from the payment account
+  private buildPurchase(
+    header: BillHeader,
+    source: PaymentSource,
+    lines: QBOBillLine[],
+    billDetails: BillDetails
+  ): QBOPurchase {
+    const { VendorRef, ...rest } = header;
+    return {
+      ...rest,
+      PaymentType: source.payType,
+      AccountRef: { value: source.accountId },
+      EntityRef: { ...VendorRef, type: "Vendor" },
+      Line: lines,
+      PrivateNote: billDetails.PrivateNote,
+    };
+  }
+
+  // A purchase already in QBO with the group's number and vendor, of a kind
+  // (purchase or card credit) the group would create
+  private async findDuplicatePurchase(
+    billNumber: string,
+    vendorId: string,
+    rows: CSVRow[]
+  ): Promise<QBOPurchase | null> {
+    const purchases = await this.qboService.findPurchasesByDocNumber(
+      billNumber,
+      vendorId
+    );
+    return (
+      purchases.find((purchase) =>
+        rows.some((row) => this.isCredit(row) === Boolean(purchase.Credit))
+      ) ?? null
+    );
+  }
+
+  // The bill was recorded but the run stopped before its payment was
+  private paymentPending(entry: LedgerEntry, row: CSVRow): boolean {
+    return (
+      !!entry.billId &&
+      !entry.billPaymentId &&
+      !this.postsPurchases() &&
+      this.hasPayment(row)
+    );
+  }
+
+  // Finish a group whose bill went in without its payment: only the payment
+  // is made, against the bill as it stands in QBO
+  private async resumeBillPayment(
+    billNumber: string,
+    existing: LedgerEntry,
+    row: CSVRow,
+    idempotencyKey: string,
+    created: CreatedEntity[]
+  ): Promise<Omit<ProcessingResult, "rowIndex">> {
+    const payment = (await this.resolvePayment(row))!;
+    const bill = await this.qboService.getBill(existing.billId!);
+    const billPayment = await this.payBill(bill, payment);
+    created.push({ type: "BillPayment", id: billPayment.Id });
+    await this.ledger.record(this.realmId, idempotencyKey, {
+      billPaymentId: billPayment.Id,
+    });
+
+    return {
+      status: "success",
+      vendorId: bill.VendorRef.value,
+      billId: existing.billId,
+      billUrl: getTransactionUrl(this.environment, "bill", existing.billId!),
+      vendorCreditId: existing.vendorCreditId,
+      billPaymentId: billPayment.Id,
+      invoiceIds: existing.invoiceIds,
+      idempotencyKey,
+      message: `Bill ${billNumber} already imported (${this.describePosted(
+        existing
+      )}); recorded its payment of ${billPayment.TotalAmt}`,
+    };
+  }
+
+  // Pay a bill, in full unless the payment gives a partial amount
+  private async payBill(
+    bill: QBOBill,
+    payment: PaymentDetails
+  ): Promise<QBOBillPayment & { Id: string }> {
+    this.checkPaymentAmount(payment, bill.TotalAmt!);
+    const paid = payment.amount ?? bill.TotalAmt!;
+    return this.qboService.createBillPayment({
+      VendorRef: { value: bill.VendorRef.value },
+      PayType: payment.payType,
+      ...(payment.payType === "Check"
+        ? {
+            CheckPayment: {
+              BankAccountRef: { value: payment.accountId },
+            },
+          }
+        : {
+            CreditCardPayment: {
+              CCAccountRef: { value: payment.accountId },
+            },
+          }),
+      TotalAmt: paid,
+      TxnDate: payment.date,
+      Line: [
+        {
+          Amount: paid,
+          LinkedTxn: [{ TxnId: bill.Id!, TxnType: "Bill" }],
+        },
+      ],
+      CurrencyRef: bill.CurrencyRef,
+      ExchangeRate: bill.ExchangeRate,
+      DepartmentRef: bill.DepartmentRef,
+      PrivateNote: bill.PrivateNote,
+    });
+  }
+
+  private checkPaymentAmount(payment: PaymentDetails, billTotal: number) {
+    if (billTotal <= 0) {
+      throw new Error(
+        "PaidAmount: Only bills can be paid, and this group has no positive lines"
+      );
+    }
+    if (payment.amount && payment.amount - billTotal >= 0.005) {
+      throw new Error(
+        `PaidAmount: ${payment.amount.toFixed(
+          2
+        )} is more than the bill total ${billTotal.toFixed(2)}`
+      );
+    }
+  }
+
+  // The total QBO will give the bill: its positive lines plus any tax added
+  // on top of them
+  private async estimateBillTotal(
+    rows: CSVRow[],
+    taxCodes: (QBOTaxCode | null)[]
+  ): Promise<number> {
+    let total = 0;
+    for (let i = 0; i < rows.length; i++) {
+      if (this.isCredit(rows[i])) continue;
+      const amount = validateAmount(rows[i].BillLineAmount)!;
+      total += amount;
+      if (taxCodes[i] && !parseTaxInclusive(rows[i].TaxInclusive)) {
+        total +=
+          amount * (await this.qboService.getTaxRate(taxCodes[i]!, "Purchase"));
+      }
+    }
+    return Math.round(total * 100) / 100;
+  }
+
+  // Bill header fields taken from a group's first row. Names are resolved
+  // before anything is posted; without a memo the private note records
+  // where the bill was imported from.
+  private async resolveBillDetails(
+    row: CSVRow,
+    indices: number[]
+  ): Promise<BillDetails> {
+    const details: BillDetails = {
+      PrivateNote: row.Memo?.trim() || this.provenance(indices),
+    };
+
+    if (row.DueDate?.trim()) {
+      details.DueDate = parseDate(row.DueDate, this.settings.strictDateParsing)!
+        .toISOString()
+        .split("T")[0];
+    }
+
+    const termName = row.Terms?.trim();
+    if (termName) {
+      const term = await this.qboService.findTermByName(termName);
+      if (!term) {
+        throw new Error(`Terms: "${termName}" not found in QuickBooks`);
+      }
+      if (term.Active === false) {
+        throw new Error(`Terms: "${termName}" is inactive`);
+      }
+      details.SalesTermRef = { value: term.Id };
+    }
+
+    const apAccountName = row.APAccount?.trim();
+    if (apAccountName) {
+      const account = await this.qboService.findAccountByName(apAccountName);
+      if (!account) {
+        throw new Error(
+          `APAccount: Account "${apAccountName}" not found in the chart of accounts`
+        );
+      }
+      if (account.Active === false) {
+        throw new Error(`APAccount: Account "${apAccountName}" is inactive`);
+      }
+      if (account.AccountType !== "Accounts Payable") {
+        throw new Error(
+          `APAccount: Account "${apAccountName}" is a ${account.AccountType} account, not an accounts payable account`
+        );
+      }
+      details.APAccountRef = { value: account.Id };
+    }
+
+    return details;
+  }
+
+  // Lets accountants trace a bill back to the CSV rows it came from
+  private provenance(indices: number[]): string {
+    return [
+      `Imported from ${this.sourceFile || "CSV upload"}`,
+      `row(s) ${indices.map((i) => i + 1).join(", ")}`,
+      ...(this.runId ? [`run ${this.runId}`] : []),
+    ]
+      .join(", ")
+      .slice(0, MAX_PRIVATE_NOTE_LENGTH);
+  }
+
+  // Invoice custom field values from the row; the Point of Contact column
+  // fills the custom field of that name
+  private async resolveCustomFields(row: CSVRow): Promise<QBOCustomField[]> {
+    const values: Record<string, string> = { ...row.CustomFields };
+    if (row.PointOfContact?.trim()) {
+      values["Point of Contact"] = row.PointOfContact;
+    }
+
+    const fields: QBOCustomField[] = [];
+    for (const [name, value] of Object.entries(values)) {
+      if (!value?.trim()) continue;
+
+      const definition = await this.qboService.findCustomFieldByName(name);
+      if (!definition) {
+        throw new Error(
+          `Custom field "${name}" is not set up in QuickBooks; add it under Account and Settings > Sales > Custom fields`
+        );
+      }
+      fields.push({
+        DefinitionId: definition.DefinitionId,
+        Name: definition.Name,
+        Type: "StringType",
+        StringValue: value.trim(),
+      });
+    }
+    return fields;
+  }
+
+  private rowCurrency(row: CSVRow): string {
+    return row.Currency?.trim() || this.settings.defaultCurrency;
+  }
+
+  // Checks a group's currency and exchange rate against the company's
+  // multicurrency setup
+  private async currencyIssues(rows: CSVRow[]): Promise<string[]> {
+    const issues: string[] = [];
+    const currencies = new Set(rows.map((row) => this.rowCurrency(row)));
+    const rates = new Set(
+      rows.map((row) => parseExchangeRate(row.ExchangeRate))
+    );
+    if (currencies.size > 1) {
+      issues.push(
+        `Lines of one bill must share a currency (found ${Array.from(
+          currencies
+        ).join(", ")})`
+      );
+    }
+    if (rates.size > 1) {
+      issues.push("Lines of one bill must share an exchange rate");
+    }
+    if (issues.length > 0) return issues;
+
+    const currency = this.rowCurrency(rows[0]);
+    const rate = parseExchangeRate(rows[0].ExchangeRate);
+    const prefs = await this.qboService.getCurrencyPrefs();
+    if (currency === prefs.homeCurrency) {
+      if (rate && rate !== 1) {
+        issues.push(
+          `Exchange rate ${rate} given for the home currency ${currency}; it must be 1 or blank`
+        );
+      }
+    } else if (!prefs.multiCurrencyEnabled) {
+      issues.push(
+        `Currency ${currency} can't be used: multicurrency is off in QuickBooks and the home currency is ${prefs.homeCurrency}`
+      );
+    } else if (!prefs.currencies.includes(currency)) {
+      issues.push(
+        `Currency ${currency} is not in the company's currency list (${prefs.currencies.join(
+          ", "
+        )})`
+      );
+    }
+    return issues;
+  }
+
+  // A customer or vendor, looked up by alias or exact name, without creating
+  // it or asking about fuzzy matches
+  private async findExistingEntity(
+    type: "Customer" | "Vendor",
+    name: string
+  ): Promise<{ Id?: string; CurrencyRef?: { value: string } } | null> {
+    const alias = await this.findAlias(type, name);
+    if (alias) return { Id: alias.entityId };
+    return type === "Customer"
+      ? this.qboService.findCustomerByName(name)
+      : this.qboService.findVendorByName(name);
+  }
+
+  // QBO fixes a customer's or vendor's currency at creation and rejects
+  // transactions in any other
+  private async entityCurrencyIssue(
+    type: "Customer" | "Vendor",
+    entity: { Id?: string; CurrencyRef?: { value: string } },
+    name: string,
+    currency: string
+  ): Promise<string | null> {
+    const prefs = await this.qboService.getCurrencyPrefs();
+    if (!prefs.multiCurrencyEnabled || !entity.Id) return null;
+
+    // Entities picked up by alias were never fetched in full
+    const entityCurrency =
+      entity.CurrencyRef?.value ??
+      (await this.qboService.getEntityCurrency(type, entity.Id)) ??
+      prefs.homeCurrency;
+    if (entityCurrency === currency) return null;
+    return `${type} "${name}" uses ${entityCurrency} but the bill is in ${currency}`;
+  }
+
+  // Auto-created customers and vendors take the bill's currency when it isn't
+  // the home currency
+  private async newEntityCurrency(
+    currency: string
+  ): Promise<string | undefined> {
+    const prefs = await this.qboService.getCurrencyPrefs();
+    return prefs.multiCurrencyEnabled && currency !== prefs.homeCurrency
+      ? currency
+      : undefined;
+  }
+
+  // Invoicing is locked per customer so concurrent groups can't pick up the
+  // same billable line, and every line put on an invoice is recorded so a
+  // later run never invoices it again
+  private async invoiceBillableExpenses(
+    customerId: string,
+    invoiceDate: string,
+    row: CSVRow,
+    projectName = row.ProjectName,
+    skipWhenEmpty = false
+  ): Promise<Saved<QBOInvoice> | null> {
+    return this.entityLocks.run(`Invoice:${customerId}`, async () => {
+      const alreadyInvoiced = await invoicedLineStore.list(this.realmId);
+      const { invoice, billedLines } =
+        await this.qboService.createInvoiceFromBillableExpenses(
+          customerId,
+          invoiceDate,
+          await this.getInvoiceItems(),
+          this.billScope(row),
+          {
+            poNumber: row.PONumber,
+            customFields: await this.resolveCustomFields(row),
+            currency: this.rowCurrency(row),
+            exchangeRate: parseExchangeRate(row.ExchangeRate) ?? undefined,
+            alreadyInvoiced,
+            skipWhenEmpty,
+            priceLine: (cost, category) =>
+              applyMarkup(
+                cost,
+                findMarkupRule(this.settings.markupRules ?? [], {
+                  customer: row.CustomerName,
+                  project: projectName,
+                  category,
+                })
+              ),
+          }
+        );
+      if (invoice) {
+        await invoicedLineStore.record(this.realmId, invoice.Id, billedLines);
+      }
+      return invoice;
+    });
+  }
+
+  // Billable lines are looked for from a window before the earlier of the
+  // bill and invoice dates, or only on bills this run created
+  private billScope(row: CSVRow): BillScope {
+    const billDate = parseDate(row.BillDate, this.settings.strictDateParsing)!;
+    const invoiceDate = parseDate(
+      row.InvoiceDate,
+      this.settings.strictDateParsing
+    )!;
+    const lookbackDays = this.settings.billableLookbackDays ?? 90;
+    const since = new Date(
+      Math.min(billDate.getTime(), invoiceDate.getTime()) -
+        lookbackDays * 24 * 60 * 60 * 1000
+    );
+
+    return {
+      since: since.toISOString().split("T")[0],
+      billIds: this.settings.invoiceRunBillsOnly
+        ? [...this.runBillIds]
+        : undefined,
+    };
+  }
+
+  // Invoice item mappings are checked against the Item list once per run
+  private getInvoiceItems(): Promise<InvoiceItemRefs> {
+    if (!this.invoiceItems) {
+      this.invoiceItems = this.resolveInvoiceItems();
+      this.invoiceItems.catch(() => {
+        this.invoiceItems = null;
+      });
+    }
+    return this.invoiceItems;
+  }
+
+  private async resolveInvoiceItems(): Promise<InvoiceItemRefs> {
+    const problems: string[] = [];
+
+    const resolve = async (itemName: string, usedFor: string) => {
+      const item = await this.qboService.findItemByName(itemName);
+      if (!item) {
+        problems.push(
+          `Item "${itemName}" (${usedFor}) not found in QuickBooks`
+        );
+      } else if (item.Active === false) {
+        problems.push(`Item "${itemName}" (${usedFor}) is inactive`);
+      } else if (!SALES_ITEM_TYPES.includes(item.Type)) {
+        problems.push(
+          `Item "${itemName}" (${usedFor}) is a ${item.Type} item and can't be invoiced`
+        );
+      } else {
+        return item.Id;
+      }
+      return undefined;
+    };
+
+    const resolveAll = async (
+      mappings: Record<string, string> = {},
+      source: string
+    ) => {
+      const ids = new Map<string, string>();
+      for (const [name, itemName] of Object.entries(mappings)) {
+        if (!itemName.trim()) continue;
+        const id = await resolve(itemName.trim(), `${source} "${name}"`);
+        if (id) ids.set(name.trim().toLowerCase(), id);
+      }
+      return ids;
+    };
+
+    const defaultItemName = this.settings.defaultItemName?.trim();
+    const defaultItemId = defaultItemName
+      ? await resolve(defaultItemName, "default item")
+      : undefined;
+    if (!defaultItemName) {
+      problems.push("No default invoice item is set");
+    }
+    const byCategory = await resolveAll(
+      this.settings.itemMappings?.byCategory,
+      "category"
+    );
+    const byVendor = await resolveAll(
+      this.settings.itemMappings?.byVendor,
+      "vendor"
+    );
+
+    if (problems.length > 0) {
+      throw new Error(`Invoice item mapping: ${problems.join("; ")}`);
+    }
+    return { defaultItemId: defaultItemId!, byCategory, byVendor };
+  }
+
+  // Name of the item a row's invoice line will use, for the dry-run preview
+  private mappedItemName(row: CSVRow): string {
+    const find = (mappings: Record<string, string> = {}, name?: string) => {
+      const key = name?.trim().toLowerCase();
+      if (!key) return undefined;
+      const entry = Object.entries(mappings).find(
+        ([source, itemName]) =>
+          source.trim().toLowerCase() === key && itemName.trim()
+      );
+      return entry?.[1].trim();
+    };
+
+    return (
+      find(this.settings.itemMappings?.byCategory, row.Category) ??
+      find(this.settings.itemMappings?.byVendor, row.VendorName) ??
+      this.settings.defaultItemName
+    );
+  }
+
+  // Aliases map raw CSV values straight to a QBO entity ID and win over any
+  // lookup by name. They're loaded once per processor.
+  private async findAlias(
+    entityType: AliasEntityType,
+    name: string
+  ): Promise<EntityAlias | null> {
+    if (!this.aliases) {
+      this.aliases = aliasStore.list(this.realmId).then(
+        (entries) =>
+          new Map(
+            entries.map((entry) => [
+              AliasStore.aliasKey(entry.realmId, entry.entityType, entry.alias),
+              entry,
+            ])
+          )
+      );
+    }
+
+    const aliases = await this.aliases;
+    const alias =
+      aliases.get(AliasStore.aliasKey(this.realmId, entityType, name)) || null;
+    if (alias) {
+      console.log(
+        `Using alias for ${entityType} "${name}": ID ${alias.entityId}`
+      );
+    }
+    return alias;
+  }
+
+  // Rank existing entities against a name that had no exact match. The top
+  // candidate is only accepted at or above the configured threshold.
+  // Ranking needs every name of the type loaded, so it's only done when the
+  // run preloads entities
+  private async fuzzyMatch(
+    type: "Customer" | "Vendor",
+    name: string
+  ): Promise<{
+    candidate: MatchCandidate | null;
+    candidates: MatchCandidate[];
+  }> {
+    if (!this.settings.preloadEntities) {
+      return { candidate: null, candidates: [] };
+    }
+
+    const candidates = await this.qboService.findCandidates(type, name);
+    const threshold = this.settings.fuzzyMatchThreshold ?? 1;
+    const best = candidates[0];
+
+    return {
+      candidate: best && best.score >= threshold ? best : null,
+      candidates,
+    };
+  }
+
+  private describeMatch(name: string, candidate: MatchCandidate): string {
+    return `${candidate.entityType} "${name}" matched to "${
+      candidate.name
+    }" (${Math.round(candidate.score * 100)}% similar)`;
+  }
+
+  private isTransaction(
+    type: CreatedEntity["type"]
+  ): type is (typeof TRANSACTION_TYPES)[number] {
+    return (TRANSACTION_TYPES as readonly string[]).includes(type);
+  }
+
+  // Undo a partially processed group, newest entity first. Transactions are
+  // deleted; names and lists can't be deleted in QBO so they're made inactive,
+  // unless another group of the run has resolved them too.
+  private async compensate(
+    idempotencyKey: string,
+    created: CreatedEntity[]
+  ): Promise<CompensationResult[]> {
+    const compensations: CompensationResult[] = [];
+
+    for (const entity of [...created].reverse()) {
+      const { type } = entity;
+      const compensation: CompensationResult = {
+        entityType: type,
+        entityId: entity.id,
+        action: this.isTransaction(type) ? "deleted" : "deactivated",
+        status: "success",
       };
+
+      try {
+        if (this.isTransaction(type)) {
+          await this.qboService.deleteEntity(type, entity.id);
+          if (type === "Invoice") {
+            await invoicedLineStore.removeInvoice(this.realmId, entity.id);
+          }
+        } else {
+          // Holding the entity's lock keeps other groups from resolving it
+          // between the check and the deactivation
+          const key = `${type}:${entity.id}`;
+          const kept = await this.entityLocks.run(entity.lockKey!, async () => {
+            if (this.sharedEntities.has(key)) return true;
+            this.entityCreators.delete(key);
+            await this.qboService.deactivateEntity(
+              type,
+              entity.id,
+              entity.syncToken
+            );
+            return false;
+          });
+          if (kept) compensation.action = "kept";
+        }
+        console.log(`Compensated ${type} ${entity.id} (${compensation.action})`);
+      } catch (error) {
+        console.error(`Failed to compensate ${type} ${entity.id}:`, error);
+        const failure = error as QBOFailure;
+        compensation.status = "error";
+        compensation.error =
+          failure.message ||
+          failure.fault?.error?.[0]?.message ||
+          String(error);
+      }
+
+      compensations.push(compensation);
     }
+
+    // Only forget the group once its bill, credit, purchases or journal
+    // entry are actually gone from QBO
+    const posted = compensations.filter(
+      (c) =>
+        c.entityType === "Bill" ||
+        c.entityType === "VendorCredit" ||
+        c.entityType === "Purchase" ||
+        c.entityType === "JournalEntry"
+    );
+    if (posted.length > 0 && posted.every((c) => c.status === "success")) {
+      await this.ledger.remove(this.realmId, idempotencyKey);
+    }
+
+    return compensations;
   }
 }
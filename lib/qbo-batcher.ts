@@ -0,0 +1,133 @@
+// QBO accepts at most 30 operations per /batch request
+const MAX_BATCH_SIZE = 30;
+// How long to wait for other concurrent operations before sending a batch
+const BATCH_WINDOW_MS = 50;
+
+type BatchEntityType =
+  | "Vendor"
+  | "Customer"
+  | "Class"
+  | "Bill"
+  | "VendorCredit"
+  | "Purchase"
+  | "JournalEntry";
+
+interface PendingOperation {
+  bId: string;
+  entityType: BatchEntityType;
+  entity: object;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface BatchFault {
+  type?: string;
+  Error?: { code: string; Message: string; Detail?: string }[];
+}
+
+export type BatchItemRequest = {
+  bId: string;
+  operation: "create";
+} & Partial<Record<BatchEntityType, object>>;
+
+export type BatchQueryRequest = {
+  bId: string;
+  Query: string;
+};
+
+export type BatchItemResponse = {
+  bId: string;
+  Fault?: BatchFault;
+  QueryResponse?: Record<string, unknown>;
+} & Partial<Record<BatchEntityType, unknown>>;
+
+// Collects create operations from concurrent callers into /batch requests.
+// Each caller gets its own promise, so a per-item fault rejects only the
+// caller that queued it.
+export class QBOBatcher {
+  private send: (items: BatchItemRequest[]) => Promise<BatchItemResponse[]>;
+  private queue: PendingOperation[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+
+  constructor(
+    send: (items: BatchItemRequest[]) => Promise<BatchItemResponse[]>
+  ) {
+    this.send = send;
+  }
+
+  create<T>(entityType: BatchEntityType, entity: object): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        bId: String(this.nextId++),
+        entityType,
+        entity,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+
+      if (this.queue.length >= MAX_BATCH_SIZE) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), BATCH_WINDOW_MS);
+      }
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const items = this.queue.splice(0, MAX_BATCH_SIZE);
+    if (this.queue.length > 0) {
+      this.timer = setTimeout(() => void this.flush(), BATCH_WINDOW_MS);
+    }
+    if (items.length === 0) return;
+
+    console.log(`Sending batch of ${items.length} operation(s) to QBO`);
+
+    try {
+      const responses = await this.send(
+        items.map((item) => ({
+          bId: item.bId,
+          operation: "create",
+          [item.entityType]: item.entity,
+        }))
+      );
+      const byId = new Map(responses.map((r) => [r.bId, r]));
+
+      for (const item of items) {
+        const response = byId.get(item.bId);
+        if (!response) {
+          item.reject(new Error(`No batch response for ${item.entityType}`));
+        } else if (response.Fault) {
+          item.reject(this.faultToError(response.Fault));
+        } else {
+          item.resolve(response[item.entityType]);
+        }
+      }
+    } catch (error) {
+      // The whole request failed, so every queued operation failed with it
+      items.forEach((item) => item.reject(error));
+    }
+  }
+
+  // Shape batch faults like node-quickbooks errors so callers handle both alike
+  private faultToError(fault: BatchFault): Error {
+    const errors = (fault.Error || []).map((e) => ({
+      code: e.code,
+      message: e.Message,
+      detail: e.Detail,
+    }));
+    const first = errors[0];
+    const error: Error & { fault?: object } = new Error(
+      first
+        ? `${first.message}${first.detail ? `: ${first.detail}` : ""}`
+        : "Batch operation failed"
+    );
+    error.fault = { type: fault.type, error: errors };
+    return error;
+  }
+}
@@ -1,22 +1,124 @@
 import QuickBooks from "node-quickbooks";
 import {
+  BilledLine,
+  CurrencyPrefs,
+  QBOCustomFieldDefinition,
+  QBOTerm,
+  QBOVendorCredit,
+  BillScope,
+  InvoiceItemRefs,
+  InvoiceOptions,
+  MatchCandidate,
+  QBOAccount,
   QBOAttachable,
   QBOBill,
+  QBOBillPayment,
+  QBOBillUpdate,
   QBOCustomer,
   QBOInvoice,
+  QBOItem,
+  QBOJournalEntry,
+  QBOPurchase,
+  QBOTaxCode,
   QBOTokens,
   QBOVendor,
+  Saved,
   UploadedFile,
 } from "./types";
+import { rankCandidates } from "./name-matching";
+import {
+  BatchItemRequest,
+  BatchItemResponse,
+  BatchQueryRequest,
+  QBOBatcher,
+} from "./qbo-batcher";
+import { getRealmLimiter, RateLimiter } from "./rate-limiter";
 import { sleep } from "./utils";
 
+type CachedEntityType = "Customer" | "Vendor" | "Class" | "Department";
+
+type CachedEntity = {
+  Id?: string;
+  Name?: string;
+  DisplayName?: string;
+  Job?: boolean;
+};
+
+type NamedEntity = { Id: string; Name: string; SyncToken?: string };
+
+// What node-quickbooks hands its callbacks when a request fails
+interface QBOError {
+  fault?: { error?: Array<{ code?: string; message?: string }> };
+}
+
+// A query response holding the entities of one type
+type QueryResult<K extends string, T> = {
+  QueryResponse?: Partial<Record<K, T[]>>;
+};
+
+// The parts of the company's preferences read here
+interface QBOPreferences {
+  CurrencyPrefs?: {
+    HomeCurrency?: { value: string };
+    MultiCurrencyEnabled?: boolean;
+  };
+  SalesFormsPrefs?: {
+    CustomField?: Array<{ CustomField?: PreferenceSetting[] }>;
+  };
+}
+
+type PreferenceSetting = {
+  Name: string;
+  BooleanValue?: boolean;
+  StringValue?: string;
+};
+
+type CompanyCurrency = { Code: string; Active?: boolean };
+
+type ReimburseCharge = {
+  Id: string;
+  LinkedTxn?: Array<{ TxnId: string; TxnLineId: string; TxnType: string }>;
+};
+
+// QBO rejects an update whose SyncToken is behind the stored object.
+// node-quickbooks hands over QBO's error body as is: { Fault: { Error } }.
+export function isStaleObjectError(error: unknown): boolean {
+  const body = error as { Fault?: { Error?: Array<{ code?: string }> } };
+  return body?.Fault?.Error?.[0]?.code === "5010";
+}
+
 export class QBOService {
   private qbo: any;
+  private limiter: RateLimiter;
   private maxRetries = 3;
   private baseDelay = 1000;
 
-  constructor(tokens: QBOTokens) {
+  // Per-run resolution cache, keyed by entity type and lowercased name
+  private entityCache = new Map<string, CachedEntity>();
+  private preloadedTypes = new Set<CachedEntityType>();
+  // Names whose cached state can't be trusted after a failed create
+  private staleKeys = new Set<string>();
+  private accounts?: Promise<QBOAccount[]>;
+  private items?: Promise<QBOItem[]>;
+  // Bills for invoicing by ID: the earliest invoice window asked for, loaded
+  // once per run, plus the bills this run creates or updates
+  private bills = new Map<string, Saved<QBOBill>>();
+  private billWindow?: { since: string; loaded: Promise<void> };
+  private taxCodes?: Promise<QBOTaxCode[]>;
+  private taxRates?: Promise<Map<string, number>>;
+  private terms?: Promise<QBOTerm[]>;
+  private preferences?: Promise<QBOPreferences>;
+  private currencyPrefs?: Promise<CurrencyPrefs>;
+  private batcher: QBOBatcher | null = null;
+
+  constructor(tokens: QBOTokens, options?: { batching?: boolean }) {
     const useSandbox = tokens.environment === "sandbox";
+    this.limiter = getRealmLimiter(tokens.realm_id);
+
+    // Vendor, customer and class creates and bills share /batch requests
+    if (options?.batching) {
+      this.batcher = new QBOBatcher((items) => this.batch(items));
+    }
 
     this.qbo = new QuickBooks(
       process.env.QBO_CLIENT_ID!,
@@ -37,9 +139,10 @@ export class QBOService {
     retryCount = 0
   ): Promise<T> {
     try {
-      return await operation();
+      // The realm limiter keeps us under Intuit's throttles up front
+      return await this.limiter.run(operation);
     } catch (error: any) {
-      // Check if it's a rate limit error
+      // Backoff is only a safety net for throttling from other clients
       if (
         error.fault?.error?.[0]?.code === "3200" &&
         retryCount < this.maxRetries
@@ -53,27 +156,155 @@ export class QBOService {
     }
   }
 
-  async findCustomerByName(displayName: string): Promise<QBOCustomer | null> {
+  private async batch(
+    items: Array<BatchItemRequest | BatchQueryRequest>
+  ): Promise<BatchItemResponse[]> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.findCustomers(
-          [{ field: "DisplayName", value: displayName, operator: "=" }],
-          (err: any, customers: any) => {
-            if (err) {
-              if (err.fault?.error?.[0]?.code === "500") {
-                resolve(null); // Not found
-              } else {
-                reject(err);
-              }
-            } else {
-              resolve(customers?.QueryResponse?.Customer?.[0] || null);
-            }
+        this.qbo.batch(
+          items,
+          (
+            err: QBOError | null,
+            result: { BatchItemResponse?: BatchItemResponse[] }
+          ) => {
+            if (err) reject(err);
+            else resolve(result?.BatchItemResponse || []);
           }
         );
       });
     });
   }
 
+  private cacheKey(type: CachedEntityType, name: string): string {
+    return `${type}:${name.trim().toLowerCase()}`;
+  }
+
+  private async cachedFind<T extends CachedEntity>(
+    type: CachedEntityType,
+    name: string,
+    find: () => Promise<T | null>
+  ): Promise<T | null> {
+    const key = this.cacheKey(type, name);
+    if (this.entityCache.has(key)) {
+      return this.entityCache.get(key) as T;
+    }
+    // After a preload, a name missing from the cache doesn't exist in QBO
+    if (this.preloadedTypes.has(type) && !this.staleKeys.has(key)) {
+      return null;
+    }
+
+    const found = await find();
+    if (found) {
+      this.entityCache.set(key, found);
+      this.staleKeys.delete(key);
+    }
+    return found;
+  }
+
+  private async cachedCreate<T extends CachedEntity>(
+    type: CachedEntityType,
+    name: string,
+    create: () => Promise<T>
+  ): Promise<T> {
+    const key = this.cacheKey(type, name);
+    try {
+      const created = await create();
+      this.entityCache.set(key, created);
+      this.staleKeys.delete(key);
+      return created;
+    } catch (error) {
+      // The entity may exist after all (e.g. a duplicate name error), so
+      // force the next lookup back to QBO
+      this.entityCache.delete(key);
+      this.staleKeys.add(key);
+      throw error;
+    }
+  }
+
+  // Load every active entity of each type with one paged query, so lookups
+  // during the run are served from memory
+  async preloadEntities(
+    types: CachedEntityType[] = ["Customer", "Vendor", "Class", "Department"]
+  ): Promise<void> {
+    for (const type of types) {
+      if (this.preloadedTypes.has(type)) continue;
+
+      const entities = await this.retryWithBackoff<CachedEntity[]>(
+        async () => {
+          return new Promise((resolve, reject) => {
+            const plural = type === "Class" ? "Classes" : `${type}s`;
+            this.qbo[`find${plural}`](
+              { fetchAll: true },
+              (
+                err: QBOError | null,
+                result: QueryResult<CachedEntityType, CachedEntity>
+              ) => {
+                if (err) reject(err);
+                else resolve(result?.QueryResponse?.[type] || []);
+              }
+            );
+          });
+        }
+      );
+
+      for (const entity of entities) {
+        const name = entity.DisplayName ?? entity.Name;
+        if (name) {
+          this.entityCache.set(this.cacheKey(type, name), entity);
+        }
+      }
+      this.preloadedTypes.add(type);
+      console.log(`Preloaded ${entities.length} ${type} record(s)`);
+    }
+  }
+
+  // Closest existing customers or vendors to a name, for fuzzy matching
+  async findCandidates(
+    type: "Customer" | "Vendor",
+    name: string,
+    limit = 3
+  ): Promise<MatchCandidate[]> {
+    await this.preloadEntities([type]);
+
+    const prefix = `${type}:`;
+    const entities = Array.from(this.entityCache.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, entity]) => entity)
+      // Projects are customers too, but never a match for a parent customer
+      .filter((entity) => !entity.Job);
+
+    return rankCandidates(name, entities, limit).map((candidate) => ({
+      ...candidate,
+      entityType: type,
+    }));
+  }
+
+  async findCustomerByName(displayName: string): Promise<QBOCustomer | null> {
+    return this.cachedFind("Customer", displayName, () =>
+      this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findCustomers(
+            [{ field: "DisplayName", value: displayName, operator: "=" }],
+            (
+              err: QBOError | null,
+              customers: QueryResult<"Customer", QBOCustomer>
+            ) => {
+              if (err) {
+                if (err.fault?.error?.[0]?.code === "500") {
+                  resolve(null); // Not found
+                } else {
+                  reject(err);
+                }
+              } else {
+                resolve(customers?.QueryResponse?.Customer?.[0] || null);
+              }
+            }
+          );
+        });
+      })
+    );
+  }
+
   async createCustomer(
     displayName: string,
     parentRef?: string,
@@ -83,65 +314,166 @@ export class QBOService {
       endDate?: string;
       status?: string;
       notes?: string;
+      currency?: string;
     }
   ): Promise<QBOCustomer> {
-    return this.retryWithBackoff(async () => {
-      return new Promise((resolve, reject) => {
-        const customer: any = { DisplayName: displayName };
+    const customer: QBOCustomer = { DisplayName: displayName };
 
-        // If parentRef is provided, this is a sub-customer (project/job)
-        if (parentRef) {
-          customer.ParentRef = { value: parentRef };
-          customer.Job = true;
+    // Projects take their parent's currency, so only top-level customers
+    // carry one
+    if (options?.currency && !parentRef) {
+      customer.CurrencyRef = { value: options.currency };
+    }
 
-          // Add project-specific fields
-          if (options?.startDate) {
-            customer.JobStartDate = options.startDate;
-          }
-          if (options?.endDate) {
-            customer.JobEndDate = options.endDate;
-          }
-          if (options?.status) {
-            customer.JobStatus = options.status;
-          }
-        } else {
-          customer.Job = false;
-        }
+    // If parentRef is provided, this is a sub-customer (project/job)
+    if (parentRef) {
+      customer.ParentRef = { value: parentRef };
+      customer.Job = true;
 
-        // Add email if provided (for both customers and projects)
-        if (options?.email?.trim()) {
-          customer.PrimaryEmailAddr = {
-            Address: options.email.trim(),
-          };
-        }
+      // Add project-specific fields
+      if (options?.startDate) {
+        customer.JobStartDate = options.startDate;
+      }
+      if (options?.endDate) {
+        customer.JobEndDate = options.endDate;
+      }
+      if (options?.status) {
+        customer.JobStatus = options.status;
+      }
+    } else {
+      customer.Job = false;
+    }
 
-        // Add notes if provided
-        if (options?.notes?.trim()) {
-          customer.Notes = options.notes.trim();
-        }
+    // Add email if provided (for both customers and projects)
+    if (options?.email?.trim()) {
+      customer.PrimaryEmailAddr = {
+        Address: options.email.trim(),
+      };
+    }
 
-        this.qbo.createCustomer(customer, (err: any, result: any) => {
-          if (err) reject(err);
-          else resolve(result);
+    // Add notes if provided
+    if (options?.notes?.trim()) {
+      customer.Notes = options.notes.trim();
+    }
+
+    return this.cachedCreate("Customer", displayName, () =>
+      this.batcher
+        ? this.batcher.create<QBOCustomer>("Customer", customer)
+        : this.retryWithBackoff(async () => {
+            return new Promise((resolve, reject) => {
+              this.qbo.createCustomer(
+                customer,
+                (err: QBOError | null, result: QBOCustomer) => {
+                  if (err) reject(err);
+                  else resolve(result);
+                }
+              );
+            });
+          })
+    );
+  }
+
+  async findVendorByName(displayName: string): Promise<QBOVendor | null> {
+    return this.cachedFind("Vendor", displayName, () =>
+      this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findVendors(
+            [{ field: "DisplayName", value: displayName, operator: "=" }],
+            (
+              err: QBOError | null,
+              vendors: QueryResult<"Vendor", QBOVendor>
+            ) => {
+              if (err) {
+                if (err.fault?.error?.[0]?.code === "500") {
+                  resolve(null);
+                } else {
+                  reject(err);
+                }
+              } else {
+                resolve(vendors?.QueryResponse?.Vendor?.[0] || null);
+              }
+            }
+          );
+        });
+      })
+    );
+  }
+
+  async createVendor(
+    displayName: string,
+    currency?: string
+  ): Promise<QBOVendor> {
+    const vendor: QBOVendor = { DisplayName: displayName };
+    if (currency) {
+      vendor.CurrencyRef = { value: currency };
+    }
+
+    return this.cachedCreate("Vendor", displayName, () =>
+      this.batcher
+        ? this.batcher.create<QBOVendor>("Vendor", vendor)
+        : this.retryWithBackoff(async () => {
+            return new Promise((resolve, reject) => {
+              this.qbo.createVendor(
+                vendor,
+                (err: QBOError | null, result: QBOVendor) => {
+                  if (err) reject(err);
+                  else resolve(result);
+                }
+              );
+            });
+          })
+    );
+  }
+
+  async createBill(bill: QBOBill): Promise<Saved<QBOBill>> {
+    if (this.batcher) {
+      console.log("Queueing bill for batch:", JSON.stringify(bill, null, 2));
+      const result = await this.batcher.create<Saved<QBOBill>>("Bill", bill);
+      console.log("Bill created successfully:", result.Id);
+      this.bills.set(result.Id, result);
+      return result;
+    }
+
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        console.log("Sending bill to QBO API:", JSON.stringify(bill, null, 2));
+        this.qbo.createBill(bill, (err: unknown, result: Saved<QBOBill>) => {
+          if (err) {
+            console.error(
+              "QBO API Error creating bill:",
+              JSON.stringify(err, null, 2)
+            );
+            reject(err);
+          } else {
+            console.log("Bill created successfully:", result.Id);
+            this.bills.set(result.Id, result);
+            resolve(result);
+          }
         });
       });
     });
   }
 
-  async findVendorByName(displayName: string): Promise<QBOVendor | null> {
+  async findBillByDocNumber(
+    docNumber: string,
+    vendorId: string
+  ): Promise<QBOBill | null> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.findVendors(
-          [{ field: "DisplayName", value: displayName, operator: "=" }],
-          (err: any, vendors: any) => {
+        this.qbo.findBills(
+          [
+            { field: "DocNumber", value: docNumber, operator: "=" },
+            { field: "VendorRef", value: vendorId, operator: "=" },
+          ],
+          (err: QBOError | null, bills: QueryResult<"Bill", QBOBill>) => {
             if (err) {
               if (err.fault?.error?.[0]?.code === "500") {
-                resolve(null);
+                resolve(null); // Not found
               } else {
                 reject(err);
               }
             } else {
-              resolve(vendors?.QueryResponse?.Vendor?.[0] || null);
+              resolve(bills?.QueryResponse?.Bill?.[0] || null);
             }
           }
         );
@@ -149,33 +481,31 @@ export class QBOService {
     });
   }
 
-  async createVendor(displayName: string): Promise<QBOVendor> {
+  async getBill(billId: string): Promise<QBOBill> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.createVendor(
-          { DisplayName: displayName },
-          (err: any, result: any) => {
-            if (err) reject(err);
-            else resolve(result);
-          }
-        );
+        this.qbo.getBill(billId, (err: unknown, bill: QBOBill) => {
+          if (err) reject(err);
+          else resolve(bill);
+        });
       });
     });
   }
 
-  async createBill(bill: QBOBill): Promise<any> {
+  async updateBill(bill: QBOBillUpdate): Promise<Saved<QBOBill>> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        console.log("Sending bill to QBO API:", JSON.stringify(bill, null, 2));
-        this.qbo.createBill(bill, (err: any, result: any) => {
+        console.log("Updating bill:", JSON.stringify(bill, null, 2));
+        this.qbo.updateBill(bill, (err: unknown, result: Saved<QBOBill>) => {
           if (err) {
             console.error(
-              "QBO API Error creating bill:",
+              "QBO API Error updating bill:",
               JSON.stringify(err, null, 2)
             );
             reject(err);
           } else {
-            console.log("Bill created successfully:", result.Id);
+            console.log("Bill updated successfully:", result.Id);
+            this.bills.set(result.Id, result);
             resolve(result);
           }
         });
@@ -183,6 +513,178 @@ export class QBOService {
     });
   }
 
+  async createVendorCredit(
+    vendorCredit: QBOVendorCredit
+  ): Promise<Saved<QBOVendorCredit>> {
+    if (this.batcher) {
+      return this.batcher.create("VendorCredit", vendorCredit);
+    }
+
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.createVendorCredit(
+          vendorCredit,
+          (err: unknown, result: Saved<QBOVendorCredit>) => {
+            if (err) {
+              console.error(
+                "QBO API Error creating vendor credit:",
+                JSON.stringify(err, null, 2)
+              );
+              reject(err);
+            } else {
+              console.log("Vendor credit created successfully:", result.Id);
+              resolve(result);
+            }
+          }
+        );
+      });
+    });
+  }
+
+  async createBillPayment(
+    billPayment: QBOBillPayment
+  ): Promise<Saved<QBOBillPayment>> {
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.createBillPayment(
+          billPayment,
+          (err: unknown, result: Saved<QBOBillPayment>) => {
+            if (err) {
+              console.error(
+                "QBO API Error creating bill payment:",
+                JSON.stringify(err, null, 2)
+              );
+              reject(err);
+            } else {
+              console.log("Bill payment created successfully:", result.Id);
+              resolve(result);
+            }
+          }
+        );
+      });
+    });
+  }
+
+  async findVendorCreditByDocNumber(
+    docNumber: string,
+    vendorId: string
+  ): Promise<QBOVendorCredit | null> {
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.findVendorCredits(
+          [
+            { field: "DocNumber", value: docNumber, operator: "=" },
+            { field: "VendorRef", value: vendorId, operator: "=" },
+          ],
+          (
+            err: unknown,
+            result: QueryResult<"VendorCredit", QBOVendorCredit>
+          ) => {
+            if (err) reject(err);
+            else resolve(result?.QueryResponse?.VendorCredit?.[0] || null);
+          }
+        );
+      });
+    });
+  }
+
+  async createPurchase(purchase: QBOPurchase): Promise<Saved<QBOPurchase>> {
+    if (this.batcher) {
+      return this.batcher.create("Purchase", purchase);
+    }
+
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.createPurchase(
+          purchase,
+          (err: unknown, result: Saved<QBOPurchase>) => {
+            if (err) {
+              console.error(
+                "QBO API Error creating purchase:",
+                JSON.stringify(err, null, 2)
+              );
+              reject(err);
+            } else {
+              console.log("Purchase created successfully:", result.Id);
+              resolve(result);
+            }
+          }
+        );
+      });
+    });
+  }
+
+  // QBO can't filter purchases by payee, so that happens client-side
+  async findPurchasesByDocNumber(
+    docNumber: string,
+    vendorId: string
+  ): Promise<QBOPurchase[]> {
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.findPurchases(
+          [{ field: "DocNumber", value: docNumber, operator: "=" }],
+          (err: unknown, result: QueryResult<"Purchase", QBOPurchase>) => {
+            if (err) reject(err);
+            else
+              resolve(
+                (result?.QueryResponse?.Purchase || []).filter(
+                  (purchase) =>
+                    purchase.EntityRef?.value === vendorId
+                )
+              );
+          }
+        );
+      });
+    });
+  }
+
+  async createJournalEntry(
+    journalEntry: QBOJournalEntry
+  ): Promise<Saved<QBOJournalEntry>> {
+    if (this.batcher) {
+      return this.batcher.create("JournalEntry", journalEntry);
+    }
+
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.createJournalEntry(
+          journalEntry,
+          (err: unknown, result: Saved<QBOJournalEntry>) => {
+            if (err) {
+              console.error(
+                "QBO API Error creating journal entry:",
+                JSON.stringify(err, null, 2)
+              );
+              reject(err);
+            } else {
+              console.log("Journal entry created successfully:", result.Id);
+              resolve(result);
+            }
+          }
+        );
+      });
+    });
+  }
+
+  async findJournalEntryByDocNumber(
+    docNumber: string
+  ): Promise<QBOJournalEntry | null> {
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo.findJournalEntries(
+          [{ field: "DocNumber", value: docNumber, operator: "=" }],
+          (
+            err: unknown,
+            result: QueryResult<"JournalEntry", QBOJournalEntry>
+          ) => {
+            if (err) reject(err);
+            else resolve(result?.QueryResponse?.JournalEntry?.[0] || null);
+          }
+        );
+      });
+    });
+  }
+
   async getBillableExpenses(customerId: string): Promise<any[]> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
@@ -198,20 +700,28 @@ export class QBOService {
     });
   }
 
-  async createInvoice(invoice: QBOInvoice): Promise<any> {
+  async createInvoice(invoice: QBOInvoice): Promise<Saved<QBOInvoice>> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.createInvoice(invoice, (err: any, result: any) => {
-          if (err) reject(err);
-          else resolve(result);
-        });
+        this.qbo.createInvoice(
+          invoice,
+          (err: unknown, result: Saved<QBOInvoice>) => {
+            if (err) reject(err);
+            else resolve(result);
+          }
+        );
       });
     });
   }
 
   async uploadAttachment(
     file: UploadedFile,
-    entityType: "Bill" | "Invoice",
+    entityType:
+      | "Bill"
+      | "VendorCredit"
+      | "Purchase"
+      | "JournalEntry"
+      | "Invoice",
     entityId: string
   ): Promise<QBOAttachable> {
     return this.retryWithBackoff(async () => {
@@ -240,16 +750,36 @@ export class QBOService {
     });
   }
 
-  async getExpenseAccount(): Promise<string> {
+  // Names of the files already attached to a transaction
+  async findAttachmentFileNames(
+    entityType: "Bill",
+    entityId: string
+  ): Promise<Set<string>> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.findAccounts(
-          [{ field: "AccountType", value: "Expense", operator: "=" }],
-          (err: any, accounts: any) => {
-            if (err) reject(err);
-            else {
-              const account = accounts?.QueryResponse?.Account?.[0];
-              resolve(account?.Id || "1"); // Default to account 1 if not found
+        this.qbo.findAttachables(
+          [
+            {
+              field: "AttachableRef.EntityRef.Type",
+              value: entityType,
+              operator: "=",
+            },
+            {
+              field: "AttachableRef.EntityRef.value",
+              value: entityId,
+              operator: "=",
+            },
+            { field: "fetchAll", value: "true", operator: "=" },
+          ],
+          (
+            err: unknown,
+            attachables: { QueryResponse?: { Attachable?: QBOAttachable[] } }
+          ) => {
+            if (err) {
+              reject(err);
+            } else {
+              const found = attachables?.QueryResponse?.Attachable || [];
+              resolve(new Set(found.map((a) => a.FileName)));
             }
           }
         );
@@ -257,180 +787,684 @@ export class QBOService {
     });
   }
 
-  async findDepartmentByName(
-    name: string
-  ): Promise<{ Id: string; Name: string } | null> {
+  // The whole chart of accounts is small, so load it once per run and
+  // resolve mapped account names from memory
+  async getAccounts(): Promise<QBOAccount[]> {
+    if (!this.accounts) {
+      this.accounts = this.queryAccounts();
+      this.accounts.catch(() => {
+        this.accounts = undefined;
+      });
+    }
+    return this.accounts;
+  }
+
+  private async queryAccounts(): Promise<QBOAccount[]> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.findDepartments(
-          [{ field: "Name", value: name, operator: "=" }],
-          (err: any, departments: any) => {
-            if (err) {
-              if (err.fault?.error?.[0]?.code === "500") {
-                resolve(null); // Not found
-              } else {
-                reject(err);
-              }
-            } else {
-              resolve(departments?.QueryResponse?.Department?.[0] || null);
-            }
+        this.qbo.findAccounts(
+          { fetchAll: true },
+          (err: unknown, result: QueryResult<"Account", QBOAccount>) => {
+            if (err) reject(err);
+            else resolve(result?.QueryResponse?.Account || []);
           }
         );
       });
     });
   }
 
-  async findClassByName(
-    name: string
-  ): Promise<{ Id: string; Name: string } | null> {
+  // Matches the fully qualified name ("Parent:Child") first, then the
+  // plain account name
+  async findAccountByName(name: string): Promise<QBOAccount | null> {
+    const key = name.trim().toLowerCase();
+    const accounts = await this.getAccounts();
+    return (
+      accounts.find((a) => a.FullyQualifiedName?.toLowerCase() === key) ??
+      accounts.find((a) => a.Name.toLowerCase() === key) ??
+      null
+    );
+  }
+
+  async getItems(): Promise<QBOItem[]> {
+    if (!this.items) {
+      this.items = this.queryItems();
+      this.items.catch(() => {
+        this.items = undefined;
+      });
+    }
+    return this.items;
+  }
+
+  private async queryItems(): Promise<QBOItem[]> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.findClasses(
-          [{ field: "Name", value: name, operator: "=" }],
-          (err: any, classes: any) => {
-            if (err) {
-              if (err.fault?.error?.[0]?.code === "500") {
-                resolve(null); // Not found
-              } else {
-                reject(err);
-              }
-            } else {
-              resolve(classes?.QueryResponse?.Class?.[0] || null);
-            }
+        this.qbo.findItems(
+          { fetchAll: true },
+          (err: unknown, result: QueryResult<"Item", QBOItem>) => {
+            if (err) reject(err);
+            else resolve(result?.QueryResponse?.Item || []);
           }
         );
       });
     });
   }
 
-  async createClass(name: string): Promise<{ Id: string; Name: string }> {
-    return this.retryWithBackoff(async () => {
-      return new Promise((resolve, reject) => {
-        this.qbo.createClass({ Name: name }, (err: any, result: any) => {
-          if (err) reject(err);
-          else resolve(result);
-        });
+  // Non-inventory item bought through the expense account and sold through
+  // the income account
+  async createItem(
+    name: string,
+    expenseAccountId: string,
+    incomeAccountId: string
+  ): Promise<QBOItem> {
+    const item = await this.retryWithBackoff(async () => {
+      return new Promise<QBOItem>((resolve, reject) => {
+        this.qbo.createItem(
+          {
+            Name: name,
+            Type: "NonInventory",
+            ExpenseAccountRef: { value: expenseAccountId },
+            IncomeAccountRef: { value: incomeAccountId },
+          },
+          (err: unknown, result: QBOItem) => {
+            if (err) reject(err);
+            else resolve(result);
+          }
+        );
       });
     });
+
+    // The next lookup should see the new item
+    this.items = undefined;
+    return item;
   }
 
-  async createDepartment(name: string): Promise<{ Id: string; Name: string }> {
+  async findItemByName(name: string): Promise<QBOItem | null> {
+    const key = name.trim().toLowerCase();
+    const items = await this.getItems();
+    return (
+      items.find((i) => i.FullyQualifiedName?.toLowerCase() === key) ??
+      items.find((i) => i.Name.toLowerCase() === key) ??
+      null
+    );
+  }
+
+  async getTerms(): Promise<QBOTerm[]> {
+    if (!this.terms) {
+      this.terms = this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findTerms(
+            { fetchAll: true },
+            (err: unknown, result: QueryResult<"Term", QBOTerm>) => {
+              if (err) reject(err);
+              else resolve(result?.QueryResponse?.Term || []);
+            }
+          );
+        });
+      });
+      this.terms.catch(() => {
+        this.terms = undefined;
+      });
+    }
+    return this.terms;
+  }
+
+  async findTermByName(name: string): Promise<QBOTerm | null> {
+    const key = name.trim().toLowerCase();
+    const terms = await this.getTerms();
+    return terms.find((t) => t.Name.toLowerCase() === key) ?? null;
+  }
+
+  // Company preferences rarely change, so read them once per run
+  async getPreferences(): Promise<QBOPreferences> {
+    if (!this.preferences) {
+      this.preferences = this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.getPreferences((err: unknown, result: QBOPreferences) => {
+            if (err) reject(err);
+            else resolve(result);
+          });
+        });
+      });
+      this.preferences.catch(() => {
+        this.preferences = undefined;
+      });
+    }
+    return this.preferences;
+  }
+
+  async getCurrencyPrefs(): Promise<CurrencyPrefs> {
+    if (!this.currencyPrefs) {
+      this.currencyPrefs = this.queryCurrencyPrefs();
+      this.currencyPrefs.catch(() => {
+        this.currencyPrefs = undefined;
+      });
+    }
+    return this.currencyPrefs;
+  }
+
+  private async queryCurrencyPrefs(): Promise<CurrencyPrefs> {
+    const preferences = await this.getPreferences();
+    const homeCurrency = preferences?.CurrencyPrefs?.HomeCurrency?.value ?? "";
+    const multiCurrencyEnabled =
+      preferences?.CurrencyPrefs?.MultiCurrencyEnabled === true;
+
+    // The currency list only exists once multicurrency is switched on
+    const currencies: CompanyCurrency[] = multiCurrencyEnabled
+      ? await this.retryWithBackoff(async () => {
+          return new Promise((resolve, reject) => {
+            this.qbo.findCompanyCurrencies(
+              { fetchAll: true },
+              (
+                err: unknown,
+                result: QueryResult<"CompanyCurrency", CompanyCurrency>
+              ) => {
+                if (err) reject(err);
+                else resolve(result?.QueryResponse?.CompanyCurrency || []);
+              }
+            );
+          });
+        })
+      : [];
+
+    return {
+      multiCurrencyEnabled,
+      homeCurrency,
+      currencies: [
+        homeCurrency,
+        ...currencies.filter((c) => c.Active !== false).map((c) => c.Code),
+      ].filter(Boolean),
+    };
+  }
+
+  // Currency of an existing customer or vendor, for entities resolved by
+  // alias that were never fetched in full
+  async getEntityCurrency(
+    type: "Customer" | "Vendor",
+    id: string
+  ): Promise<string | undefined> {
     return this.retryWithBackoff(async () => {
       return new Promise((resolve, reject) => {
-        this.qbo.createDepartment({ Name: name }, (err: any, result: any) => {
-          if (err) reject(err);
-          else resolve(result);
-        });
+        this.qbo[`get${type}`](
+          id,
+          (err: unknown, entity: QBOCustomer | QBOVendor) => {
+            if (err) reject(err);
+            else resolve(entity?.CurrencyRef?.value);
+          }
+        );
       });
     });
   }
 
-  async getOrCreateCustomField(fieldName: string): Promise<string> {
-    // QuickBooks custom fields need to be created in the UI first
-    // This method returns a placeholder - in production, you'd query existing custom fields
-    return "1"; // Placeholder - actual implementation would query custom field definitions
+  async getTaxCodes(): Promise<QBOTaxCode[]> {
+    if (!this.taxCodes) {
+      this.taxCodes = this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findTaxCodes(
+            { fetchAll: true },
+            (err: unknown, result: QueryResult<"TaxCode", QBOTaxCode>) => {
+              if (err) reject(err);
+              else resolve(result?.QueryResponse?.TaxCode || []);
+            }
+          );
+        });
+      });
+      this.taxCodes.catch(() => {
+        this.taxCodes = undefined;
+      });
+    }
+    return this.taxCodes;
   }
 
-  async createInvoiceFromBillableExpenses(
-    customerId: string,
-    invoiceDate: string,
-    poNumber?: string,
-    pointOfContact?: string,
-    currency?: string
-  ): Promise<any> {
-    return this.retryWithBackoff(async () => {
-      return new Promise(async (resolve, reject) => {
-        try {
-          // Find all bills with billable expenses for this customer
-          this.qbo.findBills({}, async (err: any, billsData: any) => {
-            if (err) {
-              reject(err);
-              return;
+  async findTaxCodeByName(name: string): Promise<QBOTaxCode | null> {
+    const key = name.trim().toLowerCase();
+    const taxCodes = await this.getTaxCodes();
+    return taxCodes.find((t) => t.Name.toLowerCase() === key) ?? null;
+  }
+
+  // Combined rate of a tax code as a fraction (e.g. 0.13 for 13%), from the
+  // purchase rates for bills or the sales rates for invoices
+  async getTaxRate(
+    taxCode: QBOTaxCode,
+    kind: "Purchase" | "Sales"
+  ): Promise<number> {
+    if (!this.taxRates) {
+      this.taxRates = this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findTaxRates(
+            { fetchAll: true },
+            (
+              err: unknown,
+              result: QueryResult<
+                "TaxRate",
+                { Id: string; RateValue?: number | string }
+              >
+            ) => {
+              if (err) reject(err);
+              else {
+                const rates = result?.QueryResponse?.TaxRate || [];
+                resolve(
+                  new Map(rates.map((r) => [r.Id, Number(r.RateValue) || 0]))
+                );
+              }
             }
+          );
+        });
+      });
+      this.taxRates.catch(() => {
+        this.taxRates = undefined;
+      });
+    }
+
+    const rates = await this.taxRates;
+    const details = taxCode[`${kind}TaxRateList`]?.TaxRateDetail || [];
+    const percent = details.reduce(
+      (sum, detail) => sum + (rates.get(detail.TaxRateRef.value) || 0),
+      0
+    );
+    return percent / 100;
+  }
 
-            const bills = billsData?.QueryResponse?.Bill || [];
-            const invoiceLines: any[] = [];
-
-            // Collect all billable line items from bills for this customer
-            for (const bill of bills) {
-              if (bill.Line) {
-                for (const line of bill.Line) {
-                  if (
-                    line.DetailType === "AccountBasedExpenseLineDetail" &&
-                    line.AccountBasedExpenseLineDetail?.BillableStatus ===
-                      "Billable" &&
-                    line.AccountBasedExpenseLineDetail?.CustomerRef?.value ===
-                      customerId
-                  ) {
-                    // Create invoice line from billable expense
-                    invoiceLines.push({
-                      DetailType: "SalesItemLineDetail",
-                      Amount: line.Amount,
-                      Description: line.Description || "",
-                      SalesItemLineDetail: {
-                        ItemRef: { value: "1" }, // Services item - should be configurable
-                        Qty: 1,
-                        UnitPrice: line.Amount,
-                      },
-                    });
-                  }
+  async findDepartmentByName(
+    name: string
+  ): Promise<{ Id: string; Name: string; SyncToken?: string } | null> {
+    return this.cachedFind("Department", name, () =>
+      this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findDepartments(
+            [{ field: "Name", value: name, operator: "=" }],
+            (
+              err: QBOError | null,
+              departments: QueryResult<"Department", NamedEntity>
+            ) => {
+              if (err) {
+                if (err.fault?.error?.[0]?.code === "500") {
+                  resolve(null); // Not found
+                } else {
+                  reject(err);
                 }
+              } else {
+                resolve(departments?.QueryResponse?.Department?.[0] || null);
               }
             }
+          );
+        });
+      })
+    );
+  }
 
-            // If no billable expenses found, create a placeholder line
-            if (invoiceLines.length === 0) {
-              invoiceLines.push({
-                DetailType: "SalesItemLineDetail",
-                Amount: 0,
-                Description: "No billable expenses found",
-                SalesItemLineDetail: {
-                  ItemRef: { value: "1" },
-                  Qty: 0,
-                  UnitPrice: 0,
-                },
-              });
+  async findClassByName(
+    name: string
+  ): Promise<{ Id: string; Name: string; SyncToken?: string } | null> {
+    return this.cachedFind("Class", name, () =>
+      this.retryWithBackoff(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findClasses(
+            [{ field: "Name", value: name, operator: "=" }],
+            (
+              err: QBOError | null,
+              classes: QueryResult<"Class", NamedEntity>
+            ) => {
+              if (err) {
+                if (err.fault?.error?.[0]?.code === "500") {
+                  resolve(null); // Not found
+                } else {
+                  reject(err);
+                }
+              } else {
+                resolve(classes?.QueryResponse?.Class?.[0] || null);
+              }
             }
+          );
+        });
+      })
+    );
+  }
 
-            const invoice: QBOInvoice = {
-              CustomerRef: { value: customerId },
-              TxnDate: invoiceDate,
-              Line: invoiceLines,
-            };
-
-            // Add PONumber if provided
-            if (poNumber?.trim()) {
-              invoice.PONumber = poNumber;
-            }
+  async createClass(
+    name: string
+  ): Promise<{ Id: string; Name: string; SyncToken?: string }> {
+    const classData = { Name: name };
 
-            // Add Point of Contact custom field if provided
-            if (pointOfContact?.trim()) {
-              const customFieldId = await this.getOrCreateCustomField(
-                "Point of Contact"
+    return this.cachedCreate("Class", name, () =>
+      this.batcher
+        ? this.batcher.create<NamedEntity>("Class", classData)
+        : this.retryWithBackoff(async () => {
+            return new Promise<NamedEntity>((resolve, reject) => {
+              this.qbo.createClass(
+                classData,
+                (err: unknown, result: NamedEntity) => {
+                  if (err) reject(err);
+                  else resolve(result);
+                }
               );
-              invoice.CustomField = [
-                {
-                  DefinitionId: customFieldId,
-                  Name: "Point of Contact",
-                  Type: "StringType",
-                  StringValue: pointOfContact,
-                },
-              ];
-            }
+            });
+          })
+    );
+  }
 
-            if (currency) {
-              invoice.CurrencyRef = { value: currency };
+  async createDepartment(
+    name: string
+  ): Promise<{ Id: string; Name: string; SyncToken?: string }> {
+    return this.cachedCreate("Department", name, () =>
+      this.retryWithBackoff(async () => {
+        return new Promise<NamedEntity>((resolve, reject) => {
+          this.qbo.createDepartment(
+            { Name: name },
+            (err: unknown, result: NamedEntity) => {
+              if (err) reject(err);
+              else resolve(result);
             }
+          );
+        });
+      })
+    );
+  }
+
+  async deleteEntity(
+    entityType:
+      | "Bill"
+      | "VendorCredit"
+      | "BillPayment"
+      | "Purchase"
+      | "JournalEntry"
+      | "Invoice"
+      | "Attachable",
+    entityId: string
+  ): Promise<void> {
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        // node-quickbooks fetches the current SyncToken when given a bare ID
+        this.qbo[`delete${entityType}`](entityId, (err: unknown) => {
+          if (err) {
+            reject(err);
+          } else {
+            if (entityType === "Bill") this.bills.delete(entityId);
+            resolve();
+          }
+        });
+      });
+    });
+  }
+
+  // Names and list entities can't be deleted in QBO, only made inactive.
+  // The run's cached copy goes first, so later lookups ask QBO again.
+  async deactivateEntity(
+    entityType: "Customer" | "Vendor" | "Class" | "Department" | "Item",
+    entityId: string,
+    syncToken = "0"
+  ): Promise<void> {
+    if (entityType === "Item") {
+      this.items = undefined;
+    } else {
+      for (const [key, entity] of this.entityCache) {
+        if (key.startsWith(`${entityType}:`) && entity?.Id === entityId) {
+          this.entityCache.delete(key);
+          this.staleKeys.add(key);
+        }
+      }
+    }
+
+    return this.retryWithBackoff(async () => {
+      return new Promise((resolve, reject) => {
+        this.qbo[`update${entityType}`](
+          {
+            Id: entityId,
+            SyncToken: syncToken,
+            sparse: true,
+            Active: false,
+          },
+          (err: unknown) => {
+            if (err) reject(err);
+            else resolve();
+          }
+        );
+      });
+    });
+  }
+
+  // Sales form custom fields can only be set up in the QBO UI. Preferences
+  // list up to three, numbered by position, each with an on/off switch.
+  async getCustomFieldDefinitions(): Promise<QBOCustomFieldDefinition[]> {
+    const preferences = await this.getPreferences();
+    const settings = new Map<string, PreferenceSetting>();
+    for (const group of preferences?.SalesFormsPrefs?.CustomField || []) {
+      for (const setting of group.CustomField || []) {
+        settings.set(setting.Name, setting);
+      }
+    }
+
+    const definitions: QBOCustomFieldDefinition[] = [];
+    for (let n = 1; n <= 3; n++) {
+      const enabled =
+        settings.get(`SalesFormsPrefs.UseSalesCustomName${n}`)?.BooleanValue;
+      const name = settings
+        .get(`SalesFormsPrefs.SalesCustomName${n}`)
+        ?.StringValue?.trim();
+      if (enabled === true && name) {
+        definitions.push({ DefinitionId: String(n), Name: name });
+      }
+    }
+    return definitions;
+  }
+
+  async findCustomFieldByName(
+    name: string
+  ): Promise<QBOCustomFieldDefinition | null> {
+    const key = name.trim().toLowerCase();
+    const definitions = await this.getCustomFieldDefinitions();
+    return definitions.find((d) => d.Name.toLowerCase() === key) ?? null;
+  }
+
+  // Unbilled reimbursable charges for a customer, keyed by the bill line
+  // they came from ("billId:lineId"). node-quickbooks has no finder for
+  // ReimburseCharge, so the query goes through /batch.
+  private async findReimburseCharges(
+    customerId: string
+  ): Promise<Map<string, string>> {
+    const charges = new Map<string, string>();
+    const pageSize = 1000;
+
+    for (let start = 1; ; start += pageSize) {
+      const [response] = await this.batch([
+        {
+          bId: "1",
+          Query: `select * from ReimburseCharge where CustomerRef = '${customerId}' and HasBeenInvoiced = false startposition ${start} maxresults ${pageSize}`,
+        },
+      ]);
+      if (response?.Fault) {
+        console.warn(
+          "ReimburseCharge query failed; invoice lines will not be linked:",
+          response.Fault
+        );
+        break;
+      }
+
+      const page = (response?.QueryResponse?.ReimburseCharge ||
+        []) as ReimburseCharge[];
+      for (const charge of page) {
+        for (const linked of charge.LinkedTxn || []) {
+          if (linked.TxnType === "Bill") {
+            charges.set(`${linked.TxnId}:${linked.TxnLineId}`, charge.Id);
+          }
+        }
+      }
+      if (page.length < pageSize) break;
+    }
 
-            this.qbo.createInvoice(invoice, (err: any, result: any) => {
+    return charges;
+  }
+
+  // Bills that may hold billable lines for an invoice: every bill dated on
+  // or after `since`, or just the listed bills when `billIds` is set. QBO
+  // can't filter bills by line customer, so that happens client-side.
+  private async findBillsInScope(
+    scope: BillScope
+  ): Promise<Saved<QBOBill>[]> {
+    const query = (criteria: object[]) =>
+      this.retryWithBackoff<Saved<QBOBill>[]>(async () => {
+        return new Promise((resolve, reject) => {
+          this.qbo.findBills(
+            [...criteria, { field: "fetchAll", value: true }],
+            (err: unknown, result: QueryResult<"Bill", Saved<QBOBill>>) => {
               if (err) reject(err);
-              else resolve(result);
-            });
+              else resolve(result?.QueryResponse?.Bill || []);
+            }
+          );
+        });
+      });
+
+    if (!scope.billIds) {
+      // A window reaching further back than the loaded one replaces it
+      let window = this.billWindow;
+      if (!window || scope.since < window.since) {
+        const loaded = query([
+          { field: "TxnDate", value: scope.since, operator: ">=" },
+        ]).then((bills) => {
+          for (const bill of bills) this.bills.set(bill.Id, bill);
+        });
+        window = { since: scope.since, loaded };
+        this.billWindow = window;
+        loaded.catch(() => {
+          if (this.billWindow === window) this.billWindow = undefined;
+        });
+      }
+      await window.loaded;
+      return Array.from(this.bills.values()).filter(
+        (bill) => bill.TxnDate >= scope.since
+      );
+    }
+
+    // Keep each IN list well inside the query length limit
+    const missing = scope.billIds.filter((id) => !this.bills.has(id));
+    for (let i = 0; i < missing.length; i += 100) {
+      const ids = missing.slice(i, i + 100);
+      const page = await query([{ field: "Id", value: ids, operator: "IN" }]);
+      for (const bill of page) this.bills.set(bill.Id, bill);
+    }
+    return scope.billIds
+      .map((id) => this.bills.get(id))
+      .filter((bill) => bill !== undefined);
+  }
+
+  async createInvoiceFromBillableExpenses(
+    customerId: string,
+    invoiceDate: string,
+    items: InvoiceItemRefs,
+    scope: BillScope,
+    options: InvoiceOptions = {}
+  ): Promise<{
+    invoice: Saved<QBOInvoice> | null;
+    billedLines: BilledLine[];
+  }> {
+    const {
+      poNumber,
+      customFields = [],
+      currency,
+      exchangeRate,
+      alreadyInvoiced = new Set<string>(),
+      priceLine = (cost: number) => cost,
+      skipWhenEmpty = false,
+    } = options;
+    const charges = await this.findReimburseCharges(customerId);
+    const bills = await this.findBillsInScope(scope);
+    const invoiceLines: QBOInvoice["Line"] = [];
+    const billedLines: BilledLine[] = [];
+
+    // Collect all billable line items from bills for this customer
+    for (const bill of bills) {
+      for (const line of bill.Line || []) {
+        const detail =
+          line.AccountBasedExpenseLineDetail ?? line.ItemBasedExpenseLineDetail;
+        if (
+          detail?.BillableStatus === "Billable" &&
+          detail.CustomerRef?.value === customerId &&
+          !alreadyInvoiced.has(`${bill.Id}:${line.Id}`)
+        ) {
+          // Class mapping wins over vendor mapping, then the default
+          const className = detail.ClassRef?.name;
+          const vendorName = bill.VendorRef?.name;
+          const itemId =
+            (className && items.byCategory.get(className.toLowerCase())) ||
+            (vendorName && items.byVendor.get(vendorName.toLowerCase())) ||
+            items.defaultItemId;
+
+          // Item lines are resold as the same item and quantity
+          const itemLine = line.ItemBasedExpenseLineDetail;
+          const qty = itemLine?.Qty || 1;
+
+          // Create invoice line from billable expense; linking it to the
+          // expense's charge makes QBO mark the line as billed
+          const chargeId = charges.get(`${bill.Id}:${line.Id}`);
+          const billed = priceLine(line.Amount, className);
+          invoiceLines.push({
+            DetailType: "SalesItemLineDetail",
+            Amount: billed,
+            Description: line.Description || "",
+            SalesItemLineDetail: {
+              ItemRef: itemLine ? itemLine.ItemRef : { value: itemId },
+              Qty: qty,
+              UnitPrice: billed / qty,
+              // Bill the expense under the tax code it was bought with
+              ...(detail.TaxCodeRef && {
+                TaxCodeRef: detail.TaxCodeRef,
+              }),
+            },
+            ...(chargeId && {
+              LinkedTxn: [{ TxnId: chargeId, TxnType: "ReimburseCharge" }],
+            }),
           });
-        } catch (error) {
-          reject(error);
+          billedLines.push({ billId: bill.Id, lineId: line.Id! });
         }
+      }
+    }
+
+    if (invoiceLines.length === 0 && skipWhenEmpty) {
+      return { invoice: null, billedLines };
+    }
+
+    // If no billable expenses found, create a placeholder line
+    if (invoiceLines.length === 0) {
+      invoiceLines.push({
+        DetailType: "SalesItemLineDetail",
+        Amount: 0,
+        Description: "No billable expenses found",
+        SalesItemLineDetail: {
+          ItemRef: { value: items.defaultItemId },
+          Qty: 0,
+          UnitPrice: 0,
+        },
       });
-    });
+    }
+
+    const invoice: QBOInvoice = {
+      CustomerRef: { value: customerId },
+      TxnDate: invoiceDate,
+      Line: invoiceLines,
+    };
+
+    // Add PONumber if provided
+    if (poNumber?.trim()) {
+      invoice.PONumber = poNumber;
+    }
+
+    if (customFields.length > 0) {
+      invoice.CustomField = customFields;
+    }
+
+    if (currency) {
+      invoice.CurrencyRef = { value: currency };
+    }
+
+    if (exchangeRate) {
+      invoice.ExchangeRate = exchangeRate;
+    }
+
+    // QBO stores bill line amounts net of tax whatever the bill's own tax
+    // mode, so the invoice bills them as net amounts with tax added on top
+    if (invoiceLines.some((line) => line.SalesItemLineDetail.TaxCodeRef)) {
+      invoice.GlobalTaxCalculation = "TaxExcluded";
+    }
+
+    return { invoice: await this.createInvoice(invoice), billedLines };
   }
 }
@@ -0,0 +1,75 @@
+import { sleep } from "./utils";
+
+// Intuit's documented throttles for the Accounting API, per realm
+const QBO_REQUESTS_PER_MINUTE = 500;
+const QBO_MAX_CONCURRENT = 10;
+
+export class RateLimiter {
+  private requestsPerMinute: number;
+  private maxConcurrent: number;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(requestsPerMinute: number, maxConcurrent: number) {
+    this.requestsPerMinute = requestsPerMinute;
+    this.maxConcurrent = maxConcurrent;
+    this.tokens = requestsPerMinute;
+    this.lastRefill = Date.now();
+  }
+
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    // Wait for a concurrency slot first, then for a request token
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const msPerToken = 60000 / this.requestsPerMinute;
+      await sleep(Math.ceil((1 - this.tokens) * msPerToken));
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.requestsPerMinute,
+      this.tokens + (elapsed * this.requestsPerMinute) / 60000
+    );
+    this.lastRefill = now;
+  }
+}
+
+// One limiter per company, shared by every request handled in this process
+const realmLimiters = new Map<string, RateLimiter>();
+
+export function getRealmLimiter(realmId: string): RateLimiter {
+  let limiter = realmLimiters.get(realmId);
+  if (!limiter) {
+    limiter = new RateLimiter(QBO_REQUESTS_PER_MINUTE, QBO_MAX_CONCURRENT);
+    realmLimiters.set(realmId, limiter);
+  }
+  return limiter;
+}
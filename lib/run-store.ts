@@ -0,0 +1,91 @@
+import { JsonStore } from "./json-store";
+import { ImportRun, ProcessingResult, RunCheckpoint } from "./types";
+
+type RunData = Record<string, ImportRun>;
+
+export class RunStore {
+  private store: JsonStore<RunData>;
+
+  constructor(store?: JsonStore<RunData>) {
+    this.store = store || new JsonStore<RunData>("runs.json", () => ({}));
+  }
+
+  async get(runId: string): Promise<ImportRun | null> {
+    const data = await this.store.read();
+    return data[runId] || null;
+  }
+
+  // Create the run, or reopen it when resuming. Checkpoints are keyed by bill
+  // number, so a resume must bring the rows the run started with.
+  async start(
+    runId: string,
+    realmId: string,
+    totalGroups: number,
+    sourceHash: string
+  ): Promise<ImportRun> {
+    return this.store.update((data) => {
+      const now = new Date().toISOString();
+      const existing = data[runId];
+      if (existing && existing.realmId !== realmId) {
+        throw new Error(`Run ${runId} belongs to a different company`);
+      }
+      if (existing?.sourceHash && existing.sourceHash !== sourceHash) {
+        throw new Error(
+          `Run ${runId} was started from a different file; start a new import instead of resuming it`
+        );
+      }
+
+      const run: ImportRun = existing || {
+        runId,
+        realmId,
+        sourceHash,
+        status: "running",
+        totalGroups,
+        groups: {},
+        createdAt: now,
+        updatedAt: now,
+      };
+      run.sourceHash = run.sourceHash ?? sourceHash;
+      run.status = "running";
+      run.totalGroups = totalGroups;
+      run.updatedAt = now;
+
+      data[runId] = run;
+      return run;
+    });
+  }
+
+  async checkpoint(
+    runId: string,
+    billNumber: string,
+    indices: number[],
+    result: Omit<ProcessingResult, "rowIndex">
+  ): Promise<void> {
+    await this.store.update((data) => {
+      const run = data[runId];
+      if (!run) return;
+
+      const now = new Date().toISOString();
+      const checkpoint: RunCheckpoint = {
+        billNumber,
+        indices,
+        result,
+        completedAt: now,
+      };
+      run.groups[billNumber] = checkpoint;
+      run.updatedAt = now;
+    });
+  }
+
+  async finish(runId: string): Promise<void> {
+    await this.store.update((data) => {
+      const run = data[runId];
+      if (!run) return;
+
+      run.status = "completed";
+      run.updatedAt = new Date().toISOString();
+    });
+  }
+}
+
+export const runStore = new RunStore();
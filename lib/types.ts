@@ -13,6 +13,25 @@ export interface CSVRow {
   PONumber: string;
   PointOfContact: string;
   AttachmentFiles: string; // semicolon-separated filenames
+  AccountName: string; // overrides the Category account mapping
+  TaxCode: string;
+  TaxInclusive: string; // whether BillLineAmount already includes tax
+  ExchangeRate: string; // home currency units per unit of Currency
+  DueDate: string;
+  Terms: string; // payment term name, e.g. "Net 30"
+  Memo: string; // private note; defaults to the import's provenance
+  APAccount: string; // accounts payable account name
+  LineType: string; // "account" or "item"; blank means item when Item is set
+  Item: string;
+  Quantity: string;
+  UnitCost: string;
+  PaymentDate: string; // payment columns are optional; set to pay the bill
+  PaymentAccount: string; // bank or credit card account paid from
+  PaymentMethod: string; // "check" or "credit card"; blank follows the account
+  PaidAmount: string; // blank pays the bill in full
+  Debit: string; // journal entry lines carry a debit or a credit
+  Credit: string;
+  CustomFields?: Record<string, string>; // invoice custom field name -> value
 }
 
 export interface FieldMapping {
@@ -30,6 +49,24 @@ export interface FieldMapping {
   PONumber: string;
   PointOfContact: string;
   AttachmentFiles: string;
+  AccountName: string;
+  TaxCode: string;
+  TaxInclusive: string;
+  ExchangeRate: string;
+  DueDate: string;
+  Terms: string;
+  Memo: string;
+  APAccount: string;
+  LineType: string;
+  Item: string;
+  Quantity: string;
+  UnitCost: string;
+  PaymentDate: string;
+  PaymentAccount: string;
+  PaymentMethod: string;
+  PaidAmount: string;
+  Debit: string;
+  Credit: string;
 }
 
 export interface ValidationError {
@@ -44,18 +81,75 @@ export interface ProcessingSettings {
   fromBillableExpenses: boolean;
   defaultCurrency: string;
   strictDateParsing: boolean;
+  atomicGroups: boolean;
+  concurrency: number;
+  preloadEntities: boolean;
+  useBatchApi: boolean;
+  fuzzyMatchThreshold: number;
+  // Category -> expense account name (or "Parent:Child" path)
+  accountMappings: Record<string, string>;
+  // Item used on invoice lines with no category or vendor mapping
+  defaultItemName: string;
+  itemMappings: ItemMappings;
+  // How far before the invoice and bill dates to look for billable expenses
+  billableLookbackDays: number;
+  // Only invoice billable lines from bills created in the current run
+  invoiceRunBillsOnly: boolean;
+  // Applied to billable costs when invoicing; the first matching rule wins
+  markupRules: MarkupRule[];
+  // Post each group as a vendor bill, as a purchase paid on the spot from
+  // the row's payment account (card and bank expenses), or as a journal entry
+  transactionType: TransactionType;
+  // Correct a bill already in QBO with the same number and vendor instead of
+  // reporting it as a duplicate
+  updateExistingBills: boolean;
   environment: "sandbox" | "production";
 }
 
+export type TransactionType = "Bill" | "Purchase" | "JournalEntry";
+
+export interface MarkupRule {
+  id: string;
+  scope: "customer" | "project" | "category";
+  match: string; // customer, project or category name
+  type: "percent" | "fixed"; // percent of cost, or a flat fee per line
+  value: number;
+}
+
+// Category (QBO class) or vendor name -> invoice item name
+export interface ItemMappings {
+  byCategory: Record<string, string>;
+  byVendor: Record<string, string>;
+}
+
+// Resolved item IDs, keyed by lowercased class or vendor name
+export interface InvoiceItemRefs {
+  defaultItemId: string;
+  byCategory: Map<string, string>;
+  byVendor: Map<string, string>;
+}
+
 export interface ProcessingResult {
   rowIndex: number;
-  status: "success" | "error" | "needs_review" | "skipped";
+  status: "success" | "error" | "needs_review" | "skipped" | "duplicate";
   customerId?: string;
   subCustomerId?: string;
   vendorId?: string;
   billId?: string;
-  invoiceId?: string;
+  billUrl?: string;
+  invoiceIds?: string[]; // one per project invoiced
+  vendorCreditId?: string; // negative lines of the group
+  billPaymentId?: string;
+  purchaseId?: string;
+  purchaseCreditId?: string; // negative lines of a card purchase group
+  journalEntryId?: string;
   attachmentResults?: AttachmentResult[];
+  compensations?: CompensationResult[];
+  candidates?: MatchCandidate[];
+  unresolved?: {
+    entityType: AliasEntityType;
+    name: string;
+  };
   error?: string;
   message?: string;
   idempotencyKey?: string;
@@ -68,6 +162,104 @@ export interface AttachmentResult {
   error?: string;
 }
 
+export type AliasEntityType =
+  | "Vendor"
+  | "Customer"
+  | "Project"
+  | "Class"
+  | "Department"
+  | "Item";
+
+export interface EntityAlias {
+  realmId: string;
+  entityType: AliasEntityType;
+  alias: string;
+  entityId: string;
+  entityName?: string;
+  createdAt: string;
+}
+
+export interface MatchCandidate {
+  entityType: "Customer" | "Vendor";
+  id: string;
+  name: string;
+  score: number;
+}
+
+export interface CompensationResult {
+  entityType:
+    | "Bill"
+    | "VendorCredit"
+    | "BillPayment"
+    | "Purchase"
+    | "JournalEntry"
+    | "Invoice"
+    | "Attachable"
+    | "Customer"
+    | "Vendor"
+    | "Class"
+    | "Department"
+    | "Item";
+  entityId: string;
+  // Kept: a name or list entity another group in the run went on to use
+  action: "deleted" | "deactivated" | "kept";
+  status: "success" | "error";
+  error?: string;
+}
+
+// Which bills an invoice draws billable lines from
+export interface BillScope {
+  since: string; // YYYY-MM-DD
+  billIds?: string[]; // only these bills, ignoring the date window
+}
+
+// A bill line pulled onto an invoice
+export interface BilledLine {
+  billId: string;
+  lineId: string;
+}
+
+export interface InvoicedLine extends BilledLine {
+  realmId: string;
+  invoiceId: string;
+  invoicedAt: string;
+}
+
+export interface LedgerEntry {
+  realmId: string;
+  billKey: string;
+  billId?: string;
+  vendorCreditId?: string;
+  billPaymentId?: string;
+  purchaseId?: string;
+  purchaseCreditId?: string;
+  journalEntryId?: string;
+  invoiceIds: string[];
+  attachableIds: string[];
+  rowIndices: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RunCheckpoint {
+  billNumber: string;
+  indices: number[];
+  result: Omit<ProcessingResult, "rowIndex">;
+  completedAt: string;
+}
+
+export interface ImportRun {
+  runId: string;
+  realmId: string;
+  // SHA-256 of the rows the run was started with; a resume must send the same
+  sourceHash?: string;
+  status: "running" | "completed";
+  totalGroups: number;
+  groups: Record<string, RunCheckpoint>;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface DryRunResult {
   rowIndex: number;
   actions: string[];
@@ -75,6 +267,9 @@ export interface DryRunResult {
   errors: string[];
 }
 
+// An entity as QBO returns it once saved
+export type Saved<T> = T & { Id: string };
+
 export interface QBOTokens {
   access_token: string;
   refresh_token: string;
@@ -83,51 +278,283 @@ export interface QBOTokens {
   environment: "sandbox" | "production";
 }
 
+export interface QBOAccount {
+  Id: string;
+  Name: string;
+  FullyQualifiedName?: string;
+  AccountType: string;
+  Active?: boolean;
+}
+
+export interface QBOItem {
+  Id: string;
+  Name: string;
+  FullyQualifiedName?: string;
+  Type: string;
+  Active?: boolean;
+  SyncToken?: string;
+  IncomeAccountRef?: {
+    value: string;
+  };
+  ExpenseAccountRef?: {
+    value: string;
+  };
+}
+
+// A sales form custom field enabled in the company's preferences
+export interface QBOCustomFieldDefinition {
+  DefinitionId: string;
+  Name: string;
+}
+
+export interface QBOCustomField {
+  DefinitionId: string;
+  Name: string;
+  Type: string;
+  StringValue?: string;
+}
+
+export interface QBOTerm {
+  Id: string;
+  Name: string;
+  Active?: boolean;
+}
+
+export interface QBOTaxCode {
+  Id: string;
+  Name: string;
+  Active?: boolean;
+  PurchaseTaxRateList?: {
+    TaxRateDetail?: Array<{ TaxRateRef: { value: string; name?: string } }>;
+  };
+  SalesTaxRateList?: {
+    TaxRateDetail?: Array<{ TaxRateRef: { value: string; name?: string } }>;
+  };
+}
+
+export type GlobalTaxCalculation =
+  | "TaxInclusive"
+  | "TaxExcluded"
+  | "NotApplicable";
+
+// Optional parts of an invoice built from billable expenses
+export interface InvoiceOptions {
+  poNumber?: string;
+  customFields?: QBOCustomField[];
+  currency?: string;
+  exchangeRate?: number;
+  // Line keys ("billId:lineId") that must not be invoiced again
+  alreadyInvoiced?: Set<string>;
+  priceLine?: (cost: number, category?: string) => number;
+  // Post nothing, rather than a placeholder invoice, when no line is billable
+  skipWhenEmpty?: boolean;
+}
+
+export interface CurrencyPrefs {
+  multiCurrencyEnabled: boolean;
+  homeCurrency: string;
+  currencies: string[]; // active currency codes, including the home currency
+}
+
 export interface QBOCustomer {
   Id?: string;
+  SyncToken?: string;
   DisplayName: string;
+  CurrencyRef?: {
+    value: string;
+  };
   ParentRef?: {
     value: string;
   };
+  // Set on projects (sub-customers)
+  Job?: boolean;
+  JobStartDate?: string;
+  JobEndDate?: string;
+  JobStatus?: string;
+  PrimaryEmailAddr?: {
+    Address: string;
+  };
+  Notes?: string;
 }
 
 export interface QBOVendor {
   Id?: string;
+  SyncToken?: string;
   DisplayName: string;
+  CurrencyRef?: {
+    value: string;
+  };
+}
+
+// Parts shared by account- and item-based expense lines
+export interface QBOExpenseLineDetail {
+  CustomerRef?: {
+    value: string;
+    name?: string;
+  };
+  ClassRef?: {
+    value: string;
+    name?: string;
+  };
+  BillableStatus?: "Billable" | "NotBillable" | "HasBeenBilled";
+  TaxCodeRef?: {
+    value: string;
+    name?: string;
+  };
+}
+
+export interface QBOBillLine {
+  Id?: string;
+  DetailType: "AccountBasedExpenseLineDetail" | "ItemBasedExpenseLineDetail";
+  Amount: number;
+  Description?: string;
+  AccountBasedExpenseLineDetail?: QBOExpenseLineDetail & {
+    AccountRef: {
+      value: string;
+      name?: string;
+    };
+  };
+  ItemBasedExpenseLineDetail?: QBOExpenseLineDetail & {
+    ItemRef: {
+      value: string;
+      name?: string;
+    };
+    Qty?: number;
+    UnitPrice?: number;
+  };
 }
 
 export interface QBOBill {
   Id?: string;
+  SyncToken?: string;
+  TotalAmt?: number;
   DocNumber?: string;
   VendorRef: {
     value: string;
+    name?: string;
   };
   DepartmentRef?: {
     value: string;
     name?: string;
   };
+  Line: QBOBillLine[];
+  TxnDate: string;
+  DueDate?: string;
+  SalesTermRef?: {
+    value: string;
+  };
+  APAccountRef?: {
+    value: string;
+  };
+  PrivateNote?: string;
+  CurrencyRef?: {
+    value: string;
+  };
+  GlobalTaxCalculation?: GlobalTaxCalculation;
+  ExchangeRate?: number;
+}
+
+// Sparse updates change only the fields sent; Line, when sent, replaces the
+// bill's lines (kept by Id, added without one, removed when left out)
+export type QBOBillUpdate = Partial<QBOBill> & {
+  Id: string;
+  SyncToken: string;
+  sparse: true;
+};
+
+// Refunds and credit memos from a vendor; no due date or terms
+export type QBOVendorCredit = Omit<QBOBill, "DueDate" | "SalesTermRef">;
+
+export type BillPayType = "Check" | "CreditCard";
+
+export interface QBOBillPayment {
+  Id?: string;
+  VendorRef: {
+    value: string;
+  };
+  PayType: BillPayType;
+  CheckPayment?: {
+    BankAccountRef: {
+      value: string;
+    };
+  };
+  CreditCardPayment?: {
+    CCAccountRef: {
+      value: string;
+    };
+  };
+  TotalAmt: number;
+  TxnDate: string;
   Line: Array<{
-    DetailType: "AccountBasedExpenseLineDetail";
     Amount: number;
-    Description?: string;
-    AccountBasedExpenseLineDetail: {
-      AccountRef: {
-        value: string;
-      };
-      CustomerRef?: {
-        value: string;
-      };
-      ClassRef?: {
+    LinkedTxn: Array<{
+      TxnId: string;
+      TxnType: "Bill";
+    }>;
+  }>;
+  CurrencyRef?: {
+    value: string;
+  };
+  ExchangeRate?: number;
+  DepartmentRef?: {
+    value: string;
+  };
+  PrivateNote?: string;
+}
+
+// A card or bank expense, paid when it was made. Credit marks a credit card
+// refund.
+export interface QBOPurchase
+  extends Omit<QBOVendorCredit, "VendorRef" | "APAccountRef"> {
+  PaymentType: BillPayType;
+  AccountRef: {
+    value: string;
+  };
+  EntityRef?: {
+    value: string;
+    type?: "Vendor";
+  };
+  Credit?: boolean;
+}
+
+export type PostingType = "Debit" | "Credit";
+
+export interface QBOJournalEntryLine {
+  Id?: string;
+  DetailType: "JournalEntryLineDetail";
+  Amount: number;
+  Description?: string;
+  JournalEntryLineDetail: {
+    PostingType: PostingType;
+    AccountRef: {
+      value: string;
+    };
+    // Required on accounts receivable and payable lines
+    Entity?: {
+      Type: "Customer" | "Vendor";
+      EntityRef: {
         value: string;
-        name?: string;
       };
-      BillableStatus?: "Billable" | "NotBillable" | "HasBeenBilled";
     };
-  }>;
+    ClassRef?: {
+      value: string;
+    };
+    DepartmentRef?: {
+      value: string;
+    };
+  };
+}
+
+export interface QBOJournalEntry {
+  Id?: string;
+  DocNumber?: string;
   TxnDate: string;
+  Line: QBOJournalEntryLine[];
+  PrivateNote?: string;
   CurrencyRef?: {
     value: string;
   };
+  ExchangeRate?: number;
 }
 
 export interface QBOInvoice {
@@ -137,16 +564,13 @@ export interface QBOInvoice {
   };
   Line: Array<any>;
   TxnDate: string;
-  CustomField?: Array<{
-    DefinitionId: string;
-    Name: string;
-    Type: string;
-    StringValue?: string;
-  }>;
+  CustomField?: QBOCustomField[];
   PONumber?: string;
   CurrencyRef?: {
     value: string;
   };
+  GlobalTaxCalculation?: GlobalTaxCalculation;
+  ExchangeRate?: number;
 }
 
 export interface QBOAttachable {
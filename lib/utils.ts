@@ -45,18 +45,72 @@ export function parseDate(dateStr: string, strict: boolean = false): Date | null
   return null
 }
 
-export function validateAmount(amountStr: string): number | null {
+// Negative amounts (refunds, credit memos) are only accepted when asked for
+export function validateAmount(
+  amountStr: string,
+  allowNegative: boolean = false
+): number | null {
   if (!amountStr) return null
   
   // Remove currency symbols and commas
   const cleaned = amountStr.replace(/[$,]/g, '').trim()
   const amount = parseFloat(cleaned)
   
-  if (isNaN(amount) || amount < 0) return null
+  if (isNaN(amount) || (amount < 0 && !allowNegative)) return null
   
   return amount
 }
 
+// Blank means tax-exclusive; null means the value couldn't be understood
+export function parseTaxInclusive(value: string): boolean | null {
+  const normalized = (value || '').trim().toLowerCase()
+  if (['', 'false', 'no', 'n', '0', 'exclusive', 'excluded'].includes(normalized)) {
+    return false
+  }
+  if (['true', 'yes', 'y', '1', 'inclusive', 'included'].includes(normalized)) {
+    return true
+  }
+  return null
+}
+
+// Blank means the processor decides from the row; null means unrecognised
+export function parseLineType(value: string): 'account' | 'item' | undefined | null {
+  const normalized = (value || '').trim().toLowerCase()
+  if (!normalized) return undefined
+  if (['account', 'expense', 'category'].includes(normalized)) return 'account'
+  if (['item', 'product', 'material'].includes(normalized)) return 'item'
+  return null
+}
+
+// Blank means "follow the payment account"; null means unrecognised
+export function parsePayType(value: string): 'Check' | 'CreditCard' | undefined | null {
+  const normalized = (value || '').trim().toLowerCase().replace(/[\s_-]/g, '')
+  if (!normalized) return undefined
+  if (['check', 'cheque', 'bank'].includes(normalized)) return 'Check'
+  if (['creditcard', 'card', 'cc'].includes(normalized)) return 'CreditCard'
+  return null
+}
+
+// Blank means "let QuickBooks pick the rate"; null means the value is unusable
+export function parseExchangeRate(value: string): number | undefined | null {
+  const cleaned = (value || '').trim()
+  if (!cleaned) return undefined
+
+  const rate = Number(cleaned)
+  if (!isFinite(rate) || rate <= 0) return null
+
+  return rate
+}
+
+export function getTransactionUrl(
+  environment: 'sandbox' | 'production',
+  txnType: 'bill' | 'invoice',
+  txnId: string
+): string {
+  const host = environment === 'sandbox' ? 'app.sandbox.qbo.intuit.com' : 'app.qbo.intuit.com'
+  return `https://${host}/app/${txnType}?txnId=${txnId}`
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
@@ -13,6 +13,8 @@ declare module "node-quickbooks" {
       refreshToken: string
     );
 
+    batch(items: unknown[], callback: (err: unknown, result: unknown) => void): void;
+
     findCustomers(
       criteria: Array<{ field: string; value: string; operator: string }>,
       callback: (err: any, customers: any) => void
@@ -32,6 +34,65 @@ declare module "node-quickbooks" {
 
     createBill(bill: any, callback: (err: any, result: any) => void): void;
 
+    getBill(id: string, callback: (err: unknown, bill: unknown) => void): void;
+
+    updateBill(bill: unknown, callback: (err: unknown, result: unknown) => void): void;
+
+    createVendorCredit(
+      vendorCredit: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    findVendorCredits(
+      criteria: unknown,
+      callback: (err: unknown, vendorCredits: unknown) => void
+    ): void;
+
+    deleteVendorCredit(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    createBillPayment(
+      billPayment: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    deleteBillPayment(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    createPurchase(
+      purchase: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    findPurchases(
+      criteria: unknown,
+      callback: (err: unknown, purchases: unknown) => void
+    ): void;
+
+    deletePurchase(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    createJournalEntry(
+      journalEntry: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    findJournalEntries(
+      criteria: unknown,
+      callback: (err: unknown, journalEntries: unknown) => void
+    ): void;
+
+    deleteJournalEntry(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
     createInvoice(
       invoice: any,
       callback: (err: any, result: any) => void
@@ -43,11 +104,47 @@ declare module "node-quickbooks" {
       callback: (err: any, result: any) => void
     ): void;
 
+    findAttachables(
+      criteria: Array<{ field: string; value: string; operator: string }>,
+      callback: (err: unknown, attachables: unknown) => void
+    ): void;
+
     findAccounts(
       criteria: Array<{ field: string; value: string; operator: string }>,
       callback: (err: any, accounts: any) => void
     ): void;
 
+    findItems(
+      criteria: Array<{ field: string; value: string; operator: string }>,
+      callback: (err: unknown, items: unknown) => void
+    ): void;
+
+    findTaxCodes(
+      criteria: Array<{ field: string; value: string; operator: string }>,
+      callback: (err: unknown, taxCodes: unknown) => void
+    ): void;
+
+    findTaxRates(
+      criteria: Array<{ field: string; value: string; operator: string }>,
+      callback: (err: unknown, taxRates: unknown) => void
+    ): void;
+
+    findCompanyCurrencies(
+      criteria: unknown,
+      callback: (err: unknown, currencies: unknown) => void
+    ): void;
+
+    getPreferences(callback: (err: unknown, preferences: unknown) => void): void;
+
+    getCustomer(id: string, callback: (err: unknown, customer: unknown) => void): void;
+
+    getVendor(id: string, callback: (err: unknown, vendor: unknown) => void): void;
+
+    findTerms(
+      criteria: unknown,
+      callback: (err: unknown, terms: unknown) => void
+    ): void;
+
     findDepartments(
       criteria: Array<{ field: string; value: string; operator: string }>,
       callback: (err: any, departments: any) => void
@@ -68,6 +165,42 @@ declare module "node-quickbooks" {
       callback: (err: any, result: any) => void
     ): void;
 
+    createItem(item: unknown, callback: (err: unknown, result: unknown) => void): void;
+
+    updateItem(item: unknown, callback: (err: unknown, result: unknown) => void): void;
+
+    updateCustomer(
+      customer: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    updateVendor(vendor: unknown, callback: (err: unknown, result: unknown) => void): void;
+
+    updateClass(
+      classData: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    updateDepartment(
+      departmentData: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    deleteBill(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    deleteInvoice(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
+    deleteAttachable(
+      idOrEntity: unknown,
+      callback: (err: unknown, result: unknown) => void
+    ): void;
+
     findBills(criteria: any, callback: (err: any, bills: any) => void): void;
 
     reportBillableExpenseDetail(